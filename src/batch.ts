@@ -0,0 +1,114 @@
+import type {
+  TransformOptions,
+  TransformResponse,
+  TransformBatchOptions,
+  TransformBatchItemResult,
+  TransformBatchResponse,
+} from './types.js';
+import { VegapAbortError } from './errors.js';
+
+const DEFAULT_CONCURRENCY = 5;
+const DEFAULT_CHUNK_SIZE = 100;
+
+/**
+ * Transform many raw responses with bounded concurrency (internal)
+ * Items are processed chunk by chunk; aborting the signal rejects the whole batch.
+ *
+ * @param transform - Transforms a single raw response (Vegap.transform)
+ */
+export async function transformBatch<T>(
+  transform: (options: TransformOptions<T>) => Promise<TransformResponse<T>>,
+  options: TransformBatchOptions<T>
+): Promise<TransformBatchResponse<T>> {
+  const {
+    items,
+    concurrency = DEFAULT_CONCURRENCY,
+    chunkSize = DEFAULT_CHUNK_SIZE,
+    stopOnError = false,
+    onProgress,
+    ...transformOptions
+  } = options;
+
+  if (!transformOptions.mappingId) {
+    throw new Error('mappingId is required');
+  }
+  if (!Array.isArray(items)) {
+    throw new Error('items must be an array');
+  }
+  if (!(concurrency >= 1) || !(chunkSize >= 1)) {
+    throw new Error('concurrency and chunkSize must be at least 1');
+  }
+
+  const results: TransformBatchItemResult<T>[] = new Array(items.length);
+  let failed = 0;
+  let stopped = false;
+
+  const runItem = async (index: number): Promise<void> => {
+    if (stopped) {
+      results[index] = skippedResult(index);
+      return;
+    }
+
+    try {
+      const response = await transform({ ...transformOptions, rawResponse: items[index] });
+      results[index] = { ...response, index };
+      if (!response.success) {
+        failed++;
+        stopped = stopOnError;
+      }
+    } catch (error) {
+      if (error instanceof VegapAbortError) {
+        throw error;
+      }
+      const reason = error instanceof Error ? error : new Error(String(error));
+      results[index] = { index, success: false, errors: [reason.message], error: reason };
+      failed++;
+      stopped = stopOnError;
+    }
+  };
+
+  for (let start = 0; start < items.length; start += chunkSize) {
+    const end = Math.min(start + chunkSize, items.length);
+    let next = start;
+
+    // Each worker takes the next unprocessed index of the chunk until none are left
+    const worker = async (): Promise<void> => {
+      while (next < end) {
+        await runItem(next++);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, end - start) }, worker));
+
+    onProgress?.({ completed: end, failed, total: items.length });
+  }
+
+  let tokensUsed = 0;
+  let aiCostUsd = 0;
+  for (const result of results) {
+    // Cached results did not cost anything this time
+    if (result.cache !== 'hit' && result.cache !== 'stale') {
+      tokensUsed += result.tokens_used || 0;
+      aiCostUsd += result.ai_cost_usd || 0;
+    }
+  }
+
+  const skipped = results.filter(result => result.skipped).length;
+  return {
+    success: failed === 0 && skipped === 0,
+    results,
+    succeeded: items.length - failed - skipped,
+    failed,
+    skipped,
+    tokens_used: tokensUsed,
+    ai_cost_usd: aiCostUsd,
+  };
+}
+
+function skippedResult<T>(index: number): TransformBatchItemResult<T> {
+  return {
+    index,
+    success: false,
+    skipped: true,
+    errors: ['Skipped after an earlier item failed'],
+  };
+}
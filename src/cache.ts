@@ -0,0 +1,318 @@
+import type {
+  CachedResponse,
+  CacheOptions,
+  CacheStatus,
+  CacheStore,
+  RequestCacheOptions,
+} from './types.js';
+
+const DEFAULT_TTL_MS = 60000;
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_KEY_PREFIX = 'vegap:';
+
+/**
+ * In-memory cache store that evicts the least recently used entries
+ *
+ * @example
+ * ```typescript
+ * init({ apiKey, cache: { store: new MemoryCacheStore({ maxEntries: 5000 }) } });
+ * ```
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, { value: CachedResponse; expiresAt: number }>();
+  private readonly maxEntries: number;
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  /**
+   * Number of entries currently held (including expired ones not yet evicted)
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): CachedResponse | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Move to the end, so the map stays ordered from least to most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: CachedResponse, ttlMs: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(prefix: string): void {
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * The subset of a Redis client used by RedisCacheStore
+ * Matches ioredis; wrap other clients to expose the same signatures.
+ */
+export interface RedisLikeClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'PX', ttlMs: number): Promise<unknown>;
+  del(...keys: string[]): Promise<unknown>;
+  scan(cursor: string, matchToken: 'MATCH', pattern: string, countToken: 'COUNT', count: number): Promise<[string, string[]]>;
+}
+
+/**
+ * Cache store backed by Redis (or any client with the RedisLikeClient signatures)
+ * Entries expire in Redis itself; clear() walks the keys with SCAN.
+ *
+ * @example
+ * ```typescript
+ * import Redis from 'ioredis';
+ *
+ * init({ apiKey, cache: { store: new RedisCacheStore(new Redis()), ttlMs: 30000 } });
+ * ```
+ */
+export class RedisCacheStore implements CacheStore {
+  constructor(private readonly client: RedisLikeClient) {}
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const value = await this.client.get(key);
+    if (value === null) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(value) as CachedResponse;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, value: CachedResponse, ttlMs: number): Promise<void> {
+    await this.client.set(key, JSON.stringify(value), 'PX', Math.max(1, Math.ceil(ttlMs)));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(key);
+  }
+
+  async clear(prefix: string): Promise<void> {
+    const pattern = `${prefix.replace(/[*?[\]\\]/g, '\\$&')}*`;
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.client.scan(cursor, 'MATCH', pattern, 'COUNT', 100);
+      if (keys.length > 0) {
+        await this.client.del(...keys);
+      }
+      cursor = next;
+    } while (cursor !== '0');
+  }
+}
+
+/**
+ * Fresh and stale-while-revalidate times for one request (internal)
+ */
+export interface CachePolicy {
+  ttlMs: number;
+  staleWhileRevalidateMs: number;
+}
+
+/**
+ * Response cache with in-flight deduplication and stale-while-revalidate (internal)
+ */
+export class ResponseCache {
+  private readonly store: CacheStore;
+  private readonly inFlight = new Map<string, Promise<CachedResponse>>();
+
+  constructor(private readonly options: CacheOptions = {}) {
+    this.store = options.store || new MemoryCacheStore();
+  }
+
+  /**
+   * Whether transform() results are cached by default
+   */
+  get cachesTransforms(): boolean {
+    return this.options.transform === true;
+  }
+
+  /**
+   * Resolve the cache policy for a custom slug or mapping ID, or null if it should not be cached
+   */
+  policyFor(target: string, request: RequestCacheOptions | boolean = true): CachePolicy | null {
+    if (request === false) {
+      return null;
+    }
+
+    const override = typeof request === 'object' ? request : {};
+    const ttlBySlug = this.options.ttlBySlug || {};
+    const slugTtl = Object.keys(ttlBySlug).find(key => key.toLowerCase() === target.toLowerCase());
+    const ttlMs = override.ttlMs ?? (slugTtl !== undefined ? ttlBySlug[slugTtl] : this.options.ttlMs ?? DEFAULT_TTL_MS);
+    if (ttlMs <= 0) {
+      return null;
+    }
+
+    return {
+      ttlMs,
+      staleWhileRevalidateMs: override.staleWhileRevalidateMs ?? this.options.staleWhileRevalidateMs ?? 0,
+    };
+  }
+
+  /**
+   * Names of the request headers that are part of the cache key
+   */
+  get varyHeaders(): string[] {
+    return (this.options.varyHeaders || []).map(name => name.toLowerCase());
+  }
+
+  /**
+   * Build a cache key: readable up to the target (so invalidate() can clear by prefix), hashed after it
+   */
+  async key(kind: 'proxy' | 'transform', target: string, material: unknown): Promise<string> {
+    return `${this.prefixFor(kind, target)}${await sha256(stableStringify(material))}`;
+  }
+
+  /**
+   * Serve a response from the cache, or load and cache it
+   * Concurrent loads of the same key share one request; a stale entry is returned
+   * right away while a single background request refreshes it.
+   *
+   * @param load - Performs the request (only successful responses reach the cache)
+   * @param isCacheable - Decides from the response body whether to store it
+   */
+  async fetch(
+    key: string,
+    policy: CachePolicy,
+    load: () => Promise<Response>,
+    isCacheable: (body: string) => boolean = () => true
+  ): Promise<{ response: Response; status: CacheStatus }> {
+    const cached = await this.read(key);
+    const now = Date.now();
+
+    if (cached && cached.expiresAt > now) {
+      return { response: toResponse(cached), status: 'hit' };
+    }
+
+    if (cached && cached.staleUntil > now) {
+      // Failed background refreshes keep serving the stale entry until it runs out
+      this.load(key, policy, load, isCacheable).catch(() => undefined);
+      return { response: toResponse(cached), status: 'stale' };
+    }
+
+    const entry = await this.load(key, policy, load, isCacheable);
+    return { response: toResponse(entry), status: 'miss' };
+  }
+
+  /**
+   * Remove the cached responses of a custom slug or mapping ID, or all cached responses
+   */
+  async invalidate(target?: string): Promise<void> {
+    if (target === undefined) {
+      await this.store.clear(this.options.keyPrefix ?? DEFAULT_KEY_PREFIX);
+      return;
+    }
+    await Promise.all([
+      this.store.clear(this.prefixFor('proxy', target)),
+      this.store.clear(this.prefixFor('transform', target)),
+    ]);
+  }
+
+  private prefixFor(kind: 'proxy' | 'transform', target: string): string {
+    return `${this.options.keyPrefix ?? DEFAULT_KEY_PREFIX}${kind}:${encodeURIComponent(target.toLowerCase())}:`;
+  }
+
+  /**
+   * Read an entry, treating store failures as a miss (the cache must never break requests)
+   */
+  private async read(key: string): Promise<CachedResponse | undefined> {
+    try {
+      return await this.store.get(key);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private load(
+    key: string,
+    policy: CachePolicy,
+    load: () => Promise<Response>,
+    isCacheable: (body: string) => boolean
+  ): Promise<CachedResponse> {
+    let pending = this.inFlight.get(key);
+    if (!pending) {
+      pending = (async () => {
+        const response = await load();
+        const storedAt = Date.now();
+        const entry: CachedResponse = {
+          status: response.status,
+          headers: Object.fromEntries(response.headers.entries()),
+          body: await response.text(),
+          storedAt,
+          expiresAt: storedAt + policy.ttlMs,
+          staleUntil: storedAt + policy.ttlMs + policy.staleWhileRevalidateMs,
+        };
+
+        if (isCacheable(entry.body)) {
+          try {
+            await this.store.set(key, entry, policy.ttlMs + policy.staleWhileRevalidateMs);
+          } catch {
+            // Serve the response even if it could not be stored
+          }
+        }
+        return entry;
+      })().finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, pending);
+    }
+    return pending;
+  }
+}
+
+/**
+ * Create a fresh Response from a cached entry (each caller gets an unread body)
+ */
+function toResponse(entry: CachedResponse): Response {
+  const nullBody = entry.status === 204 || entry.status === 205 || entry.status === 304;
+  return new Response(nullBody ? null : entry.body, { status: entry.status, headers: entry.headers });
+}
+
+/**
+ * JSON.stringify with sorted object keys, so equal values give equal keys
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, current) => {
+    // BigInt query values cannot be stringified as they are
+    if (typeof current === 'bigint') {
+      return `${current}n`;
+    }
+    if (current && typeof current === 'object' && !Array.isArray(current)) {
+      return Object.fromEntries(Object.keys(current).sort().map(key => [key, current[key]]));
+    }
+    return current;
+  });
+}
+
+async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
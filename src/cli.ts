@@ -0,0 +1,471 @@
+#!/usr/bin/env node
+import { parseArgs } from 'util';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Vegap } from './index.js';
+import { generateTypes, fetchDefinitions } from './codegen.js';
+import { isPlainObject } from './utils.js';
+import type { VegapConfig, ProxyOptions, PipelineJobStatus } from './types.js';
+import {
+  VegapApiError,
+  VegapAuthenticationError,
+  VegapNotFoundError,
+  VegapInvalidRequestError,
+  VegapRateLimitError,
+  VegapServerError,
+  VegapNetworkError,
+  VegapAbortError,
+  VegapValidationError,
+} from './errors.js';
+
+/**
+ * Exit codes of the CLI
+ */
+export const EXIT_CODES = {
+  ok: 0,
+  error: 1,
+  usage: 2,
+  authentication: 3,
+  notFound: 4,
+  invalidRequest: 5,
+  rateLimited: 6,
+  server: 7,
+  network: 8,
+  validation: 9,
+  jobFailed: 10,
+} as const;
+
+const USAGE = `Usage: vegap <command> [options]
+
+Commands:
+  proxy <slug>            Send a request through a proxy endpoint
+  pipeline <slug>         Execute a pipeline with a file or JSON data
+  transform               Transform a raw API response with a mapping
+  jobs get <jobId>        Show a pipeline job
+  jobs wait <jobId>       Wait until a pipeline job has finished
+  jobs cancel <jobId>     Cancel a pipeline job
+  jobs list               List pipeline jobs
+  whoami                  Show the company and scopes of the API key
+  codegen                 Generate slug and pipeline types for proxy() and pipeline()
+
+Proxy options:
+  -q, --query <k=v>       Query parameter (repeatable)
+  -X, --method <method>   HTTP method (default: GET, or POST with --body)
+  -b, --body <json|@file> Request body (@- reads stdin)
+  -H, --header <k:v>      Request header (repeatable)
+      --path <path>       Additional path below the endpoint
+      --mapping <id>      Use a mapping ID instead of a slug
+
+Pipeline options:
+  -f, --file <path>       File to upload
+  -d, --data <json|@file> JSON data to process (@- reads stdin)
+      --pipeline-id <id>  Use a pipeline ID instead of a slug
+  -w, --wait              Wait for the job to finish
+
+Transform options:
+  -m, --mapping <id>      Mapping ID
+  -i, --input <file|->    Raw response as JSON (a file, or - for stdin)
+
+Jobs options:
+      --pipeline-id <id>  Only list jobs of this pipeline (jobs list)
+      --status <status>   Only list jobs with this status (jobs list)
+      --limit <n>         Maximum number of jobs (jobs list)
+      --timeout <ms>      How long to wait (jobs wait, pipeline --wait)
+
+Codegen options:
+  -i, --input <file|->    Exported definitions as JSON (default: load them from the API)
+  -o, --out <file>        Declaration file to write (default: vegap-types.d.ts)
+      --module <name>     Module to augment (default: vegap-sdk)
+
+Global options:
+      --json              Print raw JSON instead of tables
+  -p, --profile <name>    Profile of the config file (default: VEGAP_PROFILE or "default")
+      --api-key <key>     API key (default: VEGAP_API_KEY or the profile)
+      --company <id>      Company ID (default: VEGAP_COMPANY_ID or the profile)
+      --base-url <url>    API base URL (default: VEGAP_BASE_URL or the profile)
+  -h, --help              Show this help
+
+The config file (VEGAP_CONFIG or ~/.vegap/config.json) holds profiles:
+  { "profiles": { "default": { "apiKey": "...", "companyId": "...", "baseUrl": "..." } } }
+`;
+
+/**
+ * Thrown for invalid command lines (exit code 2)
+ */
+class UsageError extends Error {}
+
+type CliValues = ReturnType<typeof parseCliArgs>['values'];
+
+function parseCliArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    strict: true,
+    options: {
+      query: { type: 'string', short: 'q', multiple: true },
+      method: { type: 'string', short: 'X' },
+      body: { type: 'string', short: 'b' },
+      data: { type: 'string', short: 'd' },
+      header: { type: 'string', short: 'H', multiple: true },
+      path: { type: 'string' },
+      mapping: { type: 'string', short: 'm' },
+      file: { type: 'string', short: 'f' },
+      'pipeline-id': { type: 'string' },
+      wait: { type: 'boolean', short: 'w' },
+      input: { type: 'string', short: 'i' },
+      status: { type: 'string' },
+      limit: { type: 'string' },
+      timeout: { type: 'string' },
+      out: { type: 'string', short: 'o' },
+      module: { type: 'string' },
+      json: { type: 'boolean' },
+      profile: { type: 'string', short: 'p' },
+      'api-key': { type: 'string' },
+      company: { type: 'string' },
+      'base-url': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+}
+
+/**
+ * Run the CLI with the given arguments (without the node and script paths)
+ * Resolves with the exit code.
+ */
+export async function run(argv: string[]): Promise<number> {
+  let values: CliValues;
+  let positionals: string[];
+  try {
+    ({ values, positionals } = parseCliArgs(argv));
+  } catch (error) {
+    process.stderr.write(`${(error as Error).message}\n\n${USAGE}`);
+    return EXIT_CODES.usage;
+  }
+
+  const [command, ...args] = positionals;
+  if (values.help || !command) {
+    process.stdout.write(USAGE);
+    return values.help ? EXIT_CODES.ok : EXIT_CODES.usage;
+  }
+
+  try {
+    // codegen creates its own client, since it only needs one without --input
+    const result = command === 'codegen'
+      ? await runCodegen(values)
+      : await runCommand(new Vegap(await loadConfig(values)), command, args, values);
+    print(result.output, values.json);
+    return result.exitCode ?? EXIT_CODES.ok;
+  } catch (error) {
+    return reportError(error, values.json);
+  }
+}
+
+async function runCommand(
+  client: Vegap,
+  command: string,
+  args: string[],
+  values: CliValues
+): Promise<{ output: unknown; exitCode?: number }> {
+  switch (command) {
+    case 'proxy': {
+      const slug = values.mapping ? undefined : requireArg(args[0], 'proxy <slug>');
+      const body = values.body ?? values.data;
+      // Like curl, a body without -X is sent as POST
+      const method = values.method?.toUpperCase() || (body !== undefined ? 'POST' : 'GET');
+      // Bodies are only sent with POST, PUT and PATCH, so any other method would drop it
+      if (body !== undefined && !['POST', 'PUT', 'PATCH'].includes(method)) {
+        throw new UsageError(`A request body needs a method other than ${method} (pass -X POST, PUT or PATCH)`);
+      }
+      const options: ProxyOptions = {
+        method: method as ProxyOptions['method'],
+        query: parsePairs(values.query, '=', '--query'),
+        headers: parsePairs(values.header, ':', '--header'),
+        path: values.path,
+        body: body !== undefined ? await readJsonArg(body) : undefined,
+        mappingId: values.mapping,
+      };
+      const response = slug ? await client.proxy(slug, options) : await client.proxy(options);
+      return { output: response.data };
+    }
+
+    case 'pipeline': {
+      const pipelineId = values['pipeline-id'];
+      const slug = pipelineId ? undefined : requireArg(args[0], 'pipeline <slug>');
+      if (!values.file && values.data === undefined) {
+        throw new UsageError('pipeline needs --file or --data');
+      }
+      const options = {
+        ...(values.file && { file: values.file }),
+        ...(values.data !== undefined && { data: await readJsonArg(values.data) }),
+        ...(pipelineId && { pipelineId }),
+      };
+      const response = slug ? await client.pipeline(slug, options) : await client.pipeline(options);
+
+      if (values.wait && response.job_id && response.status !== 'completed' && response.status !== 'failed') {
+        const job = await client.jobs.wait(response.job_id, { timeout: parseNumber(values.timeout, '--timeout') });
+        return { output: job, exitCode: job.status === 'completed' ? EXIT_CODES.ok : EXIT_CODES.jobFailed };
+      }
+      const failed = response.success === false || response.status === 'failed' || response.status === 'cancelled';
+      return { output: response, exitCode: failed ? EXIT_CODES.jobFailed : undefined };
+    }
+
+    case 'transform': {
+      const mappingId = requireArg(values.mapping, 'transform --mapping <id>');
+      const input = requireArg(values.input, 'transform --input <file|->');
+      const response = await client.transform({
+        mappingId,
+        rawResponse: JSON.parse(input === '-' ? await readStdin() : await fs.readFile(input, 'utf8')),
+      });
+      return { output: response, exitCode: response.success ? undefined : EXIT_CODES.error };
+    }
+
+    case 'jobs': {
+      const [subcommand, jobId] = args;
+      switch (subcommand) {
+        case 'get':
+          return { output: await client.jobs.get(requireArg(jobId, 'jobs get <jobId>')) };
+        case 'wait': {
+          const job = await client.jobs.wait(requireArg(jobId, 'jobs wait <jobId>'), {
+            timeout: parseNumber(values.timeout, '--timeout'),
+          });
+          return { output: job, exitCode: job.status === 'completed' ? undefined : EXIT_CODES.jobFailed };
+        }
+        case 'cancel':
+          return { output: await client.jobs.cancel(requireArg(jobId, 'jobs cancel <jobId>')) };
+        case 'list': {
+          const list = await client.jobs.list({
+            pipelineId: values['pipeline-id'],
+            status: values.status as PipelineJobStatus | undefined,
+            limit: parseNumber(values.limit, '--limit'),
+          });
+          return { output: values.json ? list : list.jobs };
+        }
+        default:
+          throw new UsageError(`Unknown jobs command: ${subcommand ?? '(none)'}`);
+      }
+    }
+
+    case 'whoami':
+      return { output: await client.whoami() };
+
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+}
+
+/**
+ * Write the slug and pipeline type declarations, from an exported definitions file or the API
+ */
+async function runCodegen(values: CliValues): Promise<{ output: unknown; exitCode?: number }> {
+  const definitions = values.input
+    ? JSON.parse(values.input === '-' ? await readStdin() : await fs.readFile(values.input, 'utf8'))
+    : await fetchDefinitions(new Vegap(await loadConfig(values)));
+  const file = values.out || 'vegap-types.d.ts';
+  await fs.writeFile(file, generateTypes(definitions, { moduleName: values.module }));
+  return { output: { file } };
+}
+
+/**
+ * Build the client config from flags, environment variables and the config file profile (in that order)
+ */
+async function loadConfig(values: CliValues): Promise<VegapConfig> {
+  const env = process.env;
+  const profileName = values.profile || env.VEGAP_PROFILE || 'default';
+  const configPath = env.VEGAP_CONFIG || path.join(os.homedir(), '.vegap', 'config.json');
+
+  let profile: Partial<VegapConfig> = {};
+  try {
+    const file = JSON.parse(await fs.readFile(configPath, 'utf8'));
+    profile = file?.profiles?.[profileName] || {};
+    if (values.profile && !file?.profiles?.[profileName]) {
+      throw new UsageError(`Profile "${profileName}" not found in ${configPath}`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      throw error;
+    }
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw new UsageError(`Could not read ${configPath}: ${(error as Error).message}`);
+    }
+    if (values.profile) {
+      throw new UsageError(`Profile "${profileName}" not found (${configPath} does not exist)`);
+    }
+  }
+
+  const apiKey = values['api-key'] || env.VEGAP_API_KEY || profile.apiKey;
+  if (!apiKey) {
+    throw new UsageError('No API key. Set VEGAP_API_KEY, pass --api-key or add it to a profile.');
+  }
+
+  return {
+    apiKey,
+    companyId: values.company || env.VEGAP_COMPANY_ID || profile.companyId,
+    baseUrl: values['base-url'] || env.VEGAP_BASE_URL || profile.baseUrl,
+  };
+}
+
+function requireArg(value: string | undefined, usage: string): string {
+  if (!value) {
+    throw new UsageError(`Missing argument. Usage: vegap ${usage}`);
+  }
+  return value;
+}
+
+function parseNumber(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (Number.isNaN(number)) {
+    throw new UsageError(`${flag} must be a number`);
+  }
+  return number;
+}
+
+/**
+ * Parse repeated "key<separator>value" flags into an object
+ */
+function parsePairs(pairs: string[] | undefined, separator: string, flag: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const pair of pairs || []) {
+    const index = pair.indexOf(separator);
+    if (index <= 0) {
+      throw new UsageError(`${flag} expects key${separator}value, got "${pair}"`);
+    }
+    result[pair.slice(0, index).trim()] = pair.slice(index + 1).trim();
+  }
+  return result;
+}
+
+/**
+ * Read a JSON argument: inline JSON, @file or @- for stdin
+ * Values that are not valid JSON are passed on as strings.
+ */
+async function readJsonArg(value: string): Promise<any> {
+  const text = value === '@-'
+    ? await readStdin()
+    : value.startsWith('@')
+      ? await fs.readFile(value.slice(1), 'utf8')
+      : value;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function print(output: unknown, json?: boolean): void {
+  if (json) {
+    process.stdout.write(`${JSON.stringify(output, null, 2)}\n`);
+    return;
+  }
+  process.stdout.write(`${formatTable(output)}\n`);
+}
+
+/**
+ * Format a value for the terminal: arrays of objects as a table with one column per key,
+ * objects as key/value rows, anything else as JSON
+ */
+function formatTable(value: unknown): string {
+  if (Array.isArray(value) && value.length > 0 && value.every(isPlainObject)) {
+    const columns = [...new Set(value.flatMap(row => Object.keys(row)))];
+    const rows = value.map(row => columns.map(column => formatCell((row as Record<string, unknown>)[column])));
+    return renderRows([columns, ...rows], true);
+  }
+
+  if (isPlainObject(value)) {
+    const rows = Object.entries(value)
+      .filter(([, cell]) => cell !== undefined)
+      .map(([key, cell]) => [key, formatCell(cell)]);
+    return renderRows(rows, false);
+  }
+
+  return JSON.stringify(value, null, 2);
+}
+
+function renderRows(rows: string[][], header: boolean): string {
+  const widths = rows[0].map((_, index) => Math.max(...rows.map(row => row[index].length)));
+  const lines = rows.map(row => row.map((cell, index) => cell.padEnd(widths[index])).join('  ').trimEnd());
+  if (header) {
+    lines.splice(1, 0, widths.map(width => '-'.repeat(width)).join('  '));
+  }
+  return lines.join('\n');
+}
+
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Print an error and map it to an exit code
+ */
+function reportError(error: unknown, json?: boolean): number {
+  const exitCode = exitCodeFor(error);
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (json) {
+    process.stderr.write(`${JSON.stringify({
+      error: message,
+      type: error instanceof Error ? error.name : undefined,
+      ...(error instanceof VegapApiError && {
+        status: error.status,
+        code: error.code,
+        request_id: error.requestId,
+      }),
+    }, null, 2)}\n`);
+  } else {
+    const details = error instanceof VegapApiError && error.requestId ? ` (request ID: ${error.requestId})` : '';
+    process.stderr.write(`Error: ${message}${details}\n`);
+    if (error instanceof UsageError) {
+      process.stderr.write('Run "vegap --help" for usage.\n');
+    }
+  }
+
+  return exitCode;
+}
+
+function exitCodeFor(error: unknown): number {
+  if (error instanceof UsageError) {
+    return EXIT_CODES.usage;
+  }
+  if (error instanceof VegapAuthenticationError) {
+    return EXIT_CODES.authentication;
+  }
+  if (error instanceof VegapNotFoundError) {
+    return EXIT_CODES.notFound;
+  }
+  if (error instanceof VegapInvalidRequestError) {
+    return EXIT_CODES.invalidRequest;
+  }
+  if (error instanceof VegapRateLimitError) {
+    return EXIT_CODES.rateLimited;
+  }
+  if (error instanceof VegapServerError) {
+    return EXIT_CODES.server;
+  }
+  if (error instanceof VegapNetworkError || error instanceof VegapAbortError) {
+    return EXIT_CODES.network;
+  }
+  if (error instanceof VegapValidationError) {
+    return EXIT_CODES.validation;
+  }
+  return EXIT_CODES.error;
+}
+
+if (require.main === module) {
+  run(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,310 @@
+import type {
+  Endpoint,
+  Mapping,
+  Pipeline,
+  ResourceList,
+  ListResourcesOptions,
+} from './types.js';
+
+/**
+ * Mapping, endpoint and pipeline definitions to generate types from
+ * This is the format of an exported definitions file; each list may also be a `{ data: [...] }` page.
+ */
+export interface CodegenDefinitions {
+  mappings?: Mapping[] | ResourceList<Mapping>;
+  endpoints?: Endpoint[] | ResourceList<Endpoint>;
+  pipelines?: Pipeline[] | ResourceList<Pipeline>;
+}
+
+/**
+ * Options for generateTypes()
+ */
+export interface GenerateTypesOptions {
+  /**
+   * Module whose VegapSlugMap and VegapPipelineMap are augmented
+   * @default "vegap-sdk"
+   */
+  moduleName?: string;
+}
+
+/**
+ * A JSON Schema (the subset used for type generation)
+ */
+type JsonSchema = Record<string, any> | boolean;
+
+/**
+ * A resource namespace of the client that can list all its definitions
+ */
+interface Listable<T> {
+  list(options?: ListResourcesOptions): Promise<ResourceList<T>>;
+}
+
+/**
+ * Load all mapping, endpoint and pipeline definitions from the API
+ *
+ * @example
+ * ```typescript
+ * const definitions = await fetchDefinitions(createInstance({ apiKey }));
+ * await fs.writeFile('vegap-types.d.ts', generateTypes(definitions));
+ * ```
+ */
+export async function fetchDefinitions(client: {
+  mappings: Listable<Mapping>;
+  endpoints: Listable<Endpoint>;
+  pipelines: Listable<Pipeline>;
+}): Promise<{ mappings: Mapping[]; endpoints: Endpoint[]; pipelines: Pipeline[] }> {
+  const [mappings, endpoints, pipelines] = await Promise.all([
+    listAll(client.mappings),
+    listAll(client.endpoints),
+    listAll(client.pipelines),
+  ]);
+  return { mappings, endpoints, pipelines };
+}
+
+/**
+ * Generate a declaration file that types proxy() and pipeline() per slug
+ *
+ * Each endpoint's query and body come from its `query_schema` and `body_schema`, its response
+ * from the `output_schema` of its mapping. Each pipeline with a custom slug gets its data and
+ * result types from its `input_schema` and `output_schema`. Missing schemas fall back to the
+ * untyped defaults.
+ */
+export function generateTypes(definitions: CodegenDefinitions, options: GenerateTypesOptions = {}): string {
+  const { moduleName = 'vegap-sdk' } = options;
+  const mappings = new Map(toArray(definitions.mappings).map(mapping => [mapping.id, mapping]));
+
+  const slugEntries = toArray(definitions.endpoints)
+    .filter(endpoint => endpoint.custom_slug)
+    .sort((a, b) => a.custom_slug.localeCompare(b.custom_slug))
+    .map(endpoint => {
+      const mapping = mappings.get(endpoint.mapping_id);
+      return renderEntry(endpoint.custom_slug, endpoint.description || mapping?.name, [
+        ['query', endpoint.query_schema],
+        ['body', endpoint.body_schema],
+        ['response', mapping?.output_schema ?? true],
+      ]);
+    });
+
+  const pipelineEntries = toArray(definitions.pipelines)
+    .filter((pipeline): pipeline is Pipeline & { custom_slug: string } => Boolean(pipeline.custom_slug))
+    .sort((a, b) => a.custom_slug.localeCompare(b.custom_slug))
+    .map(pipeline => renderEntry(pipeline.custom_slug, pipeline.description || pipeline.name, [
+      ['data', pipeline.input_schema],
+      ['result', pipeline.output_schema ?? (pipeline.output_format === 'csv'
+        ? { type: 'array', items: { type: 'object' } }
+        : true)],
+    ]));
+
+  return [
+    '// Generated by `vegap codegen`. Do not edit.',
+    `import '${moduleName}';`,
+    '',
+    `declare module '${moduleName}' {`,
+    '  interface VegapSlugMap {',
+    ...slugEntries,
+    '  }',
+    '',
+    '  interface VegapPipelineMap {',
+    ...pipelineEntries,
+    '  }',
+    '}',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Convert a JSON Schema into a TypeScript type expression
+ * Supports objects, arrays and tuples, enums and const, unions (anyOf/oneOf, type arrays),
+ * allOf and local $refs; anything else becomes `unknown`.
+ */
+export function jsonSchemaToType(schema: JsonSchema, indent = ''): string {
+  return new SchemaConverter(typeof schema === 'object' ? schema : {}).convert(schema, indent);
+}
+
+class SchemaConverter {
+  private readonly resolving = new Set<string>();
+
+  constructor(private readonly root: Record<string, any>) {}
+
+  convert(schema: JsonSchema, indent: string): string {
+    if (schema === true) {
+      return 'any';
+    }
+    if (schema === false) {
+      return 'never';
+    }
+
+    let type = this.convertInner(schema, indent);
+    if (schema.nullable === true && type !== 'any' && type !== 'unknown') {
+      type = `${wrapUnion(type)} | null`;
+    }
+    return type;
+  }
+
+  private convertInner(schema: Record<string, any>, indent: string): string {
+    if (typeof schema.$ref === 'string') {
+      return this.convertRef(schema.$ref, indent);
+    }
+    if ('const' in schema) {
+      return JSON.stringify(schema.const);
+    }
+    if (Array.isArray(schema.enum)) {
+      return schema.enum.map(value => JSON.stringify(value)).join(' | ') || 'never';
+    }
+
+    const variants = schema.anyOf || schema.oneOf;
+    if (Array.isArray(variants)) {
+      return unique(variants.map(variant => wrapUnion(this.convert(variant, indent)))).join(' | ');
+    }
+    if (Array.isArray(schema.allOf)) {
+      return schema.allOf.map((part: JsonSchema) => wrapUnion(this.convert(part, indent))).join(' & ');
+    }
+
+    if (Array.isArray(schema.type)) {
+      return unique(schema.type.map((type: string) => this.convertType({ ...schema, type }, indent))).join(' | ');
+    }
+    return this.convertType(schema, indent);
+  }
+
+  private convertType(schema: Record<string, any>, indent: string): string {
+    switch (schema.type) {
+      case 'string':
+        return 'string';
+      case 'number':
+      case 'integer':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'null':
+        return 'null';
+      case 'array':
+        return this.convertArray(schema, indent);
+      case 'object':
+        return this.convertObject(schema, indent);
+      default:
+        if (schema.properties) {
+          return this.convertObject(schema, indent);
+        }
+        if (schema.items) {
+          return this.convertArray(schema, indent);
+        }
+        return 'unknown';
+    }
+  }
+
+  private convertArray(schema: Record<string, any>, indent: string): string {
+    const tuple = schema.prefixItems || (Array.isArray(schema.items) ? schema.items : undefined);
+    if (tuple) {
+      return `[${tuple.map((item: JsonSchema) => this.convert(item, indent)).join(', ')}]`;
+    }
+    const items = schema.items === undefined ? 'unknown' : this.convert(schema.items, indent);
+    return `Array<${items}>`;
+  }
+
+  private convertObject(schema: Record<string, any>, indent: string): string {
+    const properties: Record<string, JsonSchema> = schema.properties || {};
+    const required = new Set<string>(schema.required || []);
+    const inner = `${indent}  `;
+    const lines: string[] = [];
+
+    for (const [name, property] of Object.entries(properties)) {
+      if (typeof property === 'object' && typeof property.description === 'string') {
+        lines.push(...renderComment(property.description, inner));
+      }
+      const optional = required.has(name) ? '' : '?';
+      lines.push(`${inner}${propertyName(name)}${optional}: ${this.convert(property, inner)};`);
+    }
+
+    const additional = schema.additionalProperties;
+    if (additional !== undefined && additional !== false) {
+      lines.push(`${inner}[key: string]: ${additional === true ? 'unknown' : this.convert(additional, inner)};`);
+    } else if (additional === undefined && lines.length === 0) {
+      return 'Record<string, unknown>';
+    }
+
+    if (lines.length === 0) {
+      return 'Record<string, never>';
+    }
+    return `{\n${lines.join('\n')}\n${indent}}`;
+  }
+
+  private convertRef(ref: string, indent: string): string {
+    // Only local refs can be resolved, and recursive ones end as unknown
+    if (!ref.startsWith('#') || this.resolving.has(ref)) {
+      return 'unknown';
+    }
+
+    const target = ref
+      .slice(1)
+      .split('/')
+      .filter(Boolean)
+      .map(segment => decodeURIComponent(segment.replace(/~1/g, '/').replace(/~0/g, '~')))
+      .reduce<any>((current, segment) => (current == null ? undefined : current[segment]), this.root);
+    if (target === undefined) {
+      return 'unknown';
+    }
+
+    this.resolving.add(ref);
+    try {
+      return this.convert(target, indent);
+    } finally {
+      this.resolving.delete(ref);
+    }
+  }
+}
+
+/**
+ * Render one map entry; fields without a schema are left out (so the untyped default applies)
+ */
+function renderEntry(slug: string, description: string | undefined, fields: Array<[string, JsonSchema | undefined]>): string {
+  const lines = description ? renderComment(description, '    ') : [];
+  lines.push(`    ${JSON.stringify(slug)}: {`);
+  for (const [name, schema] of fields) {
+    if (schema !== undefined) {
+      lines.push(`      ${name}: ${jsonSchemaToType(schema, '      ')};`);
+    }
+  }
+  lines.push('    };');
+  return lines.join('\n');
+}
+
+function renderComment(text: string, indent: string): string[] {
+  const lines = text.replace(/\*\//g, '*\\/').split(/\r?\n/);
+  if (lines.length === 1) {
+    return [`${indent}/** ${lines[0]} */`];
+  }
+  return [`${indent}/**`, ...lines.map(line => `${indent} * ${line}`.trimEnd()), `${indent} */`];
+}
+
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Parenthesize union types so they can be combined with other operators
+ */
+function wrapUnion(type: string): string {
+  return /^[^{<[(]*\|/.test(type) ? `(${type})` : type;
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+function toArray<T>(value: T[] | { data: T[] } | undefined): T[] {
+  if (!value) {
+    return [];
+  }
+  return Array.isArray(value) ? value : value.data || [];
+}
+
+async function listAll<T>(resource: Listable<T>): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await resource.list({ limit: 100, cursor });
+    items.push(...page.data);
+    cursor = page.next_cursor;
+  } while (cursor);
+  return items;
+}
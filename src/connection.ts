@@ -0,0 +1,79 @@
+import type { ConnectionOptions, FetchLike } from './types.js';
+import { stripUndefined } from './utils.js';
+
+// Kept in a variable so bundlers and the type checker don't require undici to be installed
+const UNDICI_MODULE = 'undici';
+
+/**
+ * The transport resolved from the connection settings (internal)
+ */
+export interface Connection {
+  /**
+   * Dispatcher passed as `dispatcher` to fetch
+   */
+  dispatcher?: unknown;
+
+  /**
+   * fetch implementation matching the dispatcher (undici's own fetch for dispatchers created here)
+   */
+  fetch?: FetchLike;
+}
+
+/**
+ * Create the undici dispatcher for the connection settings
+ * Returns an empty connection if no setting needs one (requests then use the fetch default).
+ */
+export async function createConnection(options: ConnectionOptions = {}): Promise<Connection> {
+  const {
+    dispatcher,
+    proxyUrl,
+    ca,
+    cert,
+    key,
+    passphrase,
+    rejectUnauthorized,
+    keepAliveTimeoutMs,
+    maxConnections,
+  } = options;
+
+  if (dispatcher) {
+    return { dispatcher };
+  }
+
+  const tls = stripUndefined({ ca, cert, key, passphrase, rejectUnauthorized });
+  const pool = stripUndefined({ keepAliveTimeout: keepAliveTimeoutMs, connections: maxConnections });
+  if (!proxyUrl && Object.keys(tls).length === 0 && Object.keys(pool).length === 0) {
+    return {};
+  }
+
+  let undici: any;
+  try {
+    undici = await import(UNDICI_MODULE);
+  } catch {
+    throw new Error(
+      'The connection options proxyUrl, ca, cert, key, keepAliveTimeoutMs and maxConnections require the "undici" package. Install it with: npm install undici'
+    );
+  }
+
+  // Use undici's own fetch with its dispatchers, since the fetch built into Node.js
+  // is not guaranteed to accept dispatchers from a different undici version
+  if (proxyUrl) {
+    return {
+      dispatcher: new undici.ProxyAgent({
+        uri: proxyUrl,
+        requestTls: tls,
+        proxyTls: tls,
+        ...pool,
+      }),
+      fetch: undici.fetch,
+    };
+  }
+
+  return {
+    dispatcher: new undici.Agent({
+      connect: tls,
+      ...pool,
+    }),
+    fetch: undici.fetch,
+  };
+}
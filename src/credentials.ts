@@ -0,0 +1,287 @@
+import type { CredentialProvider, VegapCredential } from './types.js';
+import { VegapApiError } from './errors.js';
+
+/**
+ * Options for envCredentials()
+ */
+export interface EnvCredentialsOptions {
+  /**
+   * Environment variable holding the API key
+   * @default "VEGAP_API_KEY"
+   */
+  apiKeyVariable?: string;
+
+  /**
+   * Environment variable holding a bearer token (used instead of the API key when set)
+   */
+  tokenVariable?: string;
+}
+
+/**
+ * Options for oauthClientCredentials()
+ */
+export interface OAuthClientCredentialsOptions {
+  /**
+   * Token endpoint of the authorization server
+   */
+  tokenUrl: string;
+
+  clientId: string;
+
+  clientSecret: string;
+
+  /**
+   * Requested scopes (space-separated)
+   */
+  scope?: string;
+
+  /**
+   * Requested audience (for authorization servers that need one)
+   */
+  audience?: string;
+
+  /**
+   * Custom fetch implementation for the token request
+   * @default globalThis.fetch
+   */
+  fetch?: (input: string, init?: RequestInit) => Promise<Response>;
+}
+
+// Refresh credentials this long before they expire (at most half their lifetime)
+const EXPIRY_MARGIN_MS = 60000;
+
+/**
+ * A fixed API key or credential
+ *
+ * @example
+ * ```typescript
+ * init({ credentials: staticCredentials({ bearerToken: token }) });
+ * ```
+ */
+export function staticCredentials(credential: string | VegapCredential): CredentialProvider {
+  const value = typeof credential === 'string' ? { apiKey: credential } : { ...credential };
+  return () => value;
+}
+
+/**
+ * Read the API key (or a bearer token) from environment variables on every refresh
+ * Rotating the variable (e.g. by a secrets sidecar) takes effect on the next refresh.
+ */
+export function envCredentials(options: EnvCredentialsOptions = {}): CredentialProvider {
+  const { apiKeyVariable = 'VEGAP_API_KEY', tokenVariable } = options;
+
+  return () => {
+    const env = typeof process !== 'undefined' ? process.env : {};
+    const bearerToken = tokenVariable ? env[tokenVariable] : undefined;
+    if (bearerToken) {
+      return { bearerToken };
+    }
+    const apiKey = env[apiKeyVariable];
+    if (!apiKey) {
+      throw new Error(`Environment variable ${tokenVariable ? `${tokenVariable} or ` : ''}${apiKeyVariable} is not set`);
+    }
+    return { apiKey };
+  };
+}
+
+/**
+ * Read the credential from a file on every refresh (Node.js only)
+ * The file holds either the plain API key, or JSON with `apiKey`, `bearerToken` and
+ * `expiresAt` (epoch milliseconds or an ISO date), as written by most secret managers.
+ *
+ * @example
+ * ```typescript
+ * init({ credentials: fileCredentials('/var/run/secrets/vegap/api-key') });
+ * ```
+ */
+export function fileCredentials(path: string): CredentialProvider {
+  return async () => {
+    const fs = await import('fs');
+    const text = (await fs.promises.readFile(path, 'utf8')).trim();
+    if (!text.startsWith('{')) {
+      if (!text) {
+        throw new Error(`Credentials file ${path} is empty`);
+      }
+      return { apiKey: text };
+    }
+
+    const parsed = JSON.parse(text) as Omit<VegapCredential, 'expiresAt'> & { expiresAt?: number | string };
+    const expiresAt = typeof parsed.expiresAt === 'string' ? Date.parse(parsed.expiresAt) : parsed.expiresAt;
+    return { ...parsed, expiresAt: Number.isNaN(expiresAt) ? undefined : expiresAt };
+  };
+}
+
+/**
+ * Get short-lived bearer tokens with the OAuth 2.0 client credentials grant
+ * Tokens are requested again shortly before they expire, and when the API rejects one.
+ *
+ * @example
+ * ```typescript
+ * init({
+ *   credentials: oauthClientCredentials({
+ *     tokenUrl: 'https://auth.example.com/oauth/token',
+ *     clientId: process.env.VEGAP_CLIENT_ID!,
+ *     clientSecret: process.env.VEGAP_CLIENT_SECRET!,
+ *   }),
+ * });
+ * ```
+ */
+export function oauthClientCredentials(options: OAuthClientCredentialsOptions): CredentialProvider {
+  const { tokenUrl, clientId, clientSecret, scope, audience } = options;
+
+  return async () => {
+    const form = new URLSearchParams({ grant_type: 'client_credentials', client_id: clientId, client_secret: clientSecret });
+    if (scope) {
+      form.set('scope', scope);
+    }
+    if (audience) {
+      form.set('audience', audience);
+    }
+
+    const fetchImpl = options.fetch || fetch;
+    const response = await fetchImpl(tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body: form.toString(),
+    });
+    if (!response.ok) {
+      // The response body is left out, since token endpoints may echo the client secret
+      throw new Error(`Token request to ${tokenUrl} failed with HTTP ${response.status}`);
+    }
+
+    const token = await response.json() as { access_token?: string; expires_in?: number };
+    if (!token.access_token) {
+      throw new Error(`Token response from ${tokenUrl} has no access_token`);
+    }
+    return {
+      bearerToken: token.access_token,
+      expiresAt: token.expires_in ? Date.now() + token.expires_in * 1000 : undefined,
+      id: `oauth:${clientId}`,
+    };
+  };
+}
+
+/**
+ * Holds the current credential of a client and refreshes it (internal)
+ */
+export class CredentialCache {
+  private current?: Promise<{ credential: VegapCredential; loadedAt: number }>;
+  private readonly known = new Set<string>();
+
+  /**
+   * @param refreshable - Whether the provider can return a new credential (so a rejected one is worth refreshing)
+   */
+  constructor(private readonly provider: CredentialProvider, readonly refreshable: boolean) {}
+
+  /**
+   * Get the current credential, loading it first if it is missing or about to expire
+   */
+  async get(): Promise<VegapCredential> {
+    const current = this.current;
+    if (current) {
+      const { credential, loadedAt } = await current;
+      if (!isExpiring(credential, loadedAt)) {
+        return credential;
+      }
+      // Concurrent callers share the load started by the first one that saw the credential expire
+      if (this.current !== current) {
+        return this.get();
+      }
+    }
+    return this.load(false);
+  }
+
+  /**
+   * Replace a credential the API rejected
+   * Concurrent requests rejected with the same credential share one refresh.
+   */
+  async refresh(rejected: VegapCredential): Promise<VegapCredential> {
+    if (this.current) {
+      const { credential } = await this.current.catch(() => ({ credential: undefined }));
+      if (credential && credential !== rejected) {
+        return credential;
+      }
+    }
+    return this.load(true);
+  }
+
+  /**
+   * Remove every credential this cache has seen from an error's message and body
+   * Causes are left alone: they are errors of fetch or the caller (whose message may be read-only).
+   */
+  redact<E>(error: E): E {
+    if (!(error instanceof Error)) {
+      return error;
+    }
+    if (Object.getOwnPropertyDescriptor(error, 'message')?.writable) {
+      error.message = redact(error.message, this.known);
+    }
+    if (error instanceof VegapApiError && error.body !== undefined) {
+      const body = typeof error.body === 'string'
+        ? redact(error.body, this.known)
+        : JSON.parse(redact(JSON.stringify(error.body), this.known));
+      (error as { body?: unknown }).body = body;
+    }
+    return error;
+  }
+
+  private load(forceRefresh: boolean): Promise<VegapCredential> {
+    const loading = Promise.resolve()
+      .then(() => this.provider({ forceRefresh }))
+      .then(credential => {
+        if (!credential || (!credential.apiKey && !credential.bearerToken)) {
+          throw new Error('The credentials provider returned neither an API key nor a bearer token');
+        }
+        [credential.apiKey, credential.bearerToken].forEach(secret => secret && this.known.add(secret));
+        return { credential, loadedAt: Date.now() };
+      });
+
+    this.current = loading;
+    // A failed load is not kept, so the next request tries again
+    loading.catch(() => {
+      if (this.current === loading) {
+        this.current = undefined;
+      }
+    });
+    return loading.then(({ credential }) => credential);
+  }
+}
+
+/**
+ * Request headers that authenticate with a credential
+ */
+export function authHeaders(credential: VegapCredential): Record<string, string> {
+  return {
+    ...(credential.apiKey && { 'X-API-Key': credential.apiKey }),
+    ...(credential.bearerToken && { Authorization: `Bearer ${credential.bearerToken}` }),
+  };
+}
+
+/**
+ * Identity of a credential for cache keys (never the secret itself, if the credential has an ID)
+ */
+export function credentialIdentity(credential: VegapCredential): string | undefined {
+  return credential.id ?? credential.apiKey ?? credential.bearerToken;
+}
+
+/**
+ * Replace secrets in a text with [REDACTED]
+ */
+export function redact(text: string, secrets: Iterable<string>): string {
+  let result = text;
+  for (const secret of secrets) {
+    // Very short values would redact unrelated text and are no real secrets anyway
+    if (secret.length >= 8) {
+      result = result.split(secret).join('[REDACTED]');
+    }
+  }
+  return result;
+}
+
+function isExpiring(credential: VegapCredential, loadedAt: number): boolean {
+  if (credential.expiresAt === undefined) {
+    return false;
+  }
+  const margin = Math.min(EXPIRY_MARGIN_MS, Math.max(0, credential.expiresAt - loadedAt) / 2);
+  return Date.now() >= credential.expiresAt - margin;
+}
@@ -0,0 +1,157 @@
+import type { CsvParseOptions } from './types.js';
+
+/**
+ * Parse CSV text chunks into records (arrays of fields) following RFC 4180
+ * Handles quoted fields with escaped quotes ("") and embedded delimiters and newlines,
+ * CRLF, LF or CR line endings and a leading byte order mark. Records can span chunk boundaries.
+ *
+ * @param chunks - The CSV text, in chunks of any size
+ * @param delimiter - Field delimiter (a single character)
+ */
+export async function* parseCsvRecords(
+  chunks: AsyncIterable<string> | Iterable<string>,
+  delimiter = ','
+): AsyncGenerator<string[], void, undefined> {
+  if (delimiter.length !== 1 || delimiter === '"' || delimiter === '\r' || delimiter === '\n') {
+    throw new Error(`Invalid CSV delimiter: ${JSON.stringify(delimiter)}`);
+  }
+
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // A quote inside a quoted field: either the closing quote or the first half of ""
+  let quotePending = false;
+  // The previous chunk ended with \r, so a leading \n belongs to the same line break
+  let skipLineFeed = false;
+  // Whether the current record has any content (so blank lines can be skipped)
+  let dirty = false;
+  let first = true;
+
+  for await (const chunk of chunks) {
+    // Skip the byte order mark at the very start
+    const start = first && chunk.charCodeAt(0) === 0xfeff ? 1 : 0;
+    if (chunk.length > 0) {
+      first = false;
+    }
+
+    for (let i = start; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (char === '\n') {
+          continue;
+        }
+      }
+
+      if (quotePending) {
+        quotePending = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          quotePending = true;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"' && field === '') {
+        inQuotes = true;
+        dirty = true;
+      } else if (char === delimiter) {
+        record.push(field);
+        field = '';
+        dirty = true;
+      } else if (char === '\r' || char === '\n') {
+        if (dirty || field !== '') {
+          record.push(field);
+          yield record;
+        }
+        record = [];
+        field = '';
+        dirty = false;
+        skipLineFeed = char === '\r';
+      } else {
+        field += char;
+        dirty = true;
+      }
+    }
+  }
+
+  if (inQuotes && !quotePending) {
+    throw new Error('Unterminated quoted field in CSV');
+  }
+  if (dirty || field !== '') {
+    record.push(field);
+    yield record;
+  }
+}
+
+/**
+ * Turn CSV records into rows according to the header option
+ * With a header, rows are objects keyed by column name; otherwise arrays of fields.
+ */
+export async function* csvRecordsToRows<R = Record<string, unknown>>(
+  records: AsyncIterable<string[]>,
+  options: CsvParseOptions = {}
+): AsyncGenerator<R, void, undefined> {
+  const { header = true, dynamicTyping = false } = options;
+  let columns: string[] | undefined = Array.isArray(header) ? header : undefined;
+  const convert = (value: string): unknown => (dynamicTyping ? convertCsvValue(value) : value);
+
+  for await (const record of records) {
+    if (header === false) {
+      yield record.map(convert) as R;
+      continue;
+    }
+
+    if (!columns) {
+      columns = record;
+      continue;
+    }
+
+    const row: Record<string, unknown> = {};
+    columns.forEach((column, index) => {
+      row[column] = convert(record[index] ?? '');
+    });
+    yield row as R;
+  }
+}
+
+/**
+ * Parse a complete CSV document into rows
+ */
+export async function parseCsv<R = Record<string, unknown>>(
+  text: string,
+  options: CsvParseOptions = {}
+): Promise<R[]> {
+  const rows: R[] = [];
+  for await (const row of csvRecordsToRows<R>(parseCsvRecords([text], options.delimiter), options)) {
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Convert a CSV field to a number, boolean or null where it unambiguously is one
+ */
+function convertCsvValue(value: string): unknown {
+  if (value === '') {
+    return null;
+  }
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  // Keep values with leading zeros (IDs, postal codes) as strings
+  if (/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  return value;
+}
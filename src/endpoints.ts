@@ -0,0 +1,41 @@
+import type {
+  Endpoint,
+  EndpointInput,
+  EndpointTestResult,
+  TestEndpointOptions,
+} from './types.js';
+import type { JsonRequest } from './request.js';
+import { ResourceClient } from './resources.js';
+
+/**
+ * Endpoint (custom slug) management (CRUD, versions, test runs)
+ * Available as `vegap.endpoints`
+ *
+ * @example
+ * ```typescript
+ * await vegap.endpoints.create({
+ *   custom_slug: 'stripe-customers',
+ *   mapping_id: mapping.id,
+ *   upstream_url: 'https://api.stripe.com/v1/customers',
+ *   headers: { Authorization: `Bearer ${process.env.STRIPE_KEY}` },
+ * });
+ * ```
+ */
+export class Endpoints extends ResourceClient<Endpoint, EndpointInput> {
+  constructor(request: JsonRequest) {
+    super(request, '/api/endpoints', 'endpoints');
+  }
+
+  /**
+   * Send a request through an endpoint (or unsaved overrides of it) and return the raw and transformed response
+   */
+  async test<T = any>(id: string, options: TestEndpointOptions = {}): Promise<EndpointTestResult<T>> {
+    const { query, body, method, path, overrides, signal } = options;
+
+    return this.request<EndpointTestResult<T>>('POST', this.path(id, 'test'), {
+      body: { query, body, method, path, overrides },
+      signal,
+      operation: 'endpoints.test',
+    });
+  }
+}
@@ -0,0 +1,366 @@
+import type { VegapError, SchemaIssue } from './types.js';
+
+/**
+ * Request details attached to every error thrown by the SDK
+ */
+export interface VegapErrorContext {
+  /**
+   * HTTP method of the failed request
+   */
+  method?: string;
+
+  /**
+   * Full URL of the failed request
+   */
+  url?: string;
+
+  /**
+   * Original error that caused this one (if any)
+   */
+  cause?: unknown;
+}
+
+/**
+ * Options for constructing an API error
+ */
+export interface VegapApiErrorOptions extends VegapErrorContext {
+  status: number;
+  code?: string;
+  body?: VegapError | string;
+  requestId?: string;
+  headers?: Headers;
+}
+
+/**
+ * Base class for errors returned by the Vegap API (non-2xx responses)
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await vegap.proxy('stripe-customers', { id: 'cus_123' });
+ * } catch (error) {
+ *   if (error instanceof VegapNotFoundError) {
+ *     // Handle missing mapping
+ *   } else if (error instanceof VegapApiError) {
+ *     console.error(error.status, error.code, error.requestId);
+ *   }
+ * }
+ * ```
+ */
+export class VegapApiError extends Error {
+  /**
+   * HTTP status code of the response
+   */
+  readonly status: number;
+
+  /**
+   * Machine-readable error code (if provided by the API)
+   */
+  readonly code?: string;
+
+  /**
+   * Parsed error body (or raw text if the body was not JSON)
+   */
+  readonly body?: VegapError | string;
+
+  /**
+   * Request ID assigned by the API (useful for support requests)
+   */
+  readonly requestId?: string;
+
+  /**
+   * HTTP method of the failed request
+   */
+  readonly method?: string;
+
+  /**
+   * Full URL of the failed request
+   */
+  readonly url?: string;
+
+  /**
+   * Response headers of the failed request
+   */
+  readonly headers?: Headers;
+
+  constructor(message: string, options: VegapApiErrorOptions) {
+    super(message);
+    this.name = 'VegapApiError';
+    this.status = options.status;
+    this.code = options.code;
+    this.body = options.body;
+    this.requestId = options.requestId;
+    this.method = options.method;
+    this.url = options.url;
+    this.headers = options.headers;
+    if (options.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+/**
+ * Thrown when the API key is missing, invalid or lacks access (401/403)
+ */
+export class VegapAuthenticationError extends VegapApiError {
+  constructor(message: string, options: VegapApiErrorOptions) {
+    super(message, options);
+    this.name = 'VegapAuthenticationError';
+  }
+}
+
+/**
+ * Thrown when a mapping, pipeline or resource does not exist (404)
+ */
+export class VegapNotFoundError extends VegapApiError {
+  constructor(message: string, options: VegapApiErrorOptions) {
+    super(message, options);
+    this.name = 'VegapNotFoundError';
+  }
+}
+
+/**
+ * Thrown when the request was rejected because of rate limiting (429)
+ */
+export class VegapRateLimitError extends VegapApiError {
+  /**
+   * Seconds to wait before retrying (from the Retry-After header, if present)
+   */
+  readonly retryAfter?: number;
+
+  constructor(message: string, options: VegapApiErrorOptions & { retryAfter?: number }) {
+    super(message, options);
+    this.name = 'VegapRateLimitError';
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+/**
+ * Thrown when the request payload was rejected by the API (400/422)
+ */
+export class VegapInvalidRequestError extends VegapApiError {
+  constructor(message: string, options: VegapApiErrorOptions) {
+    super(message, options);
+    this.name = 'VegapInvalidRequestError';
+  }
+}
+
+/**
+ * Thrown when the API or the proxied upstream failed (5xx)
+ */
+export class VegapServerError extends VegapApiError {
+  constructor(message: string, options: VegapApiErrorOptions) {
+    super(message, options);
+    this.name = 'VegapServerError';
+  }
+}
+
+/**
+ * Thrown when the request could not be sent or no response was received
+ * (DNS failure, refused connection, dropped socket, ...)
+ */
+export class VegapNetworkError extends Error {
+  readonly method?: string;
+  readonly url?: string;
+
+  constructor(message: string, context: VegapErrorContext = {}) {
+    super(message);
+    this.name = 'VegapNetworkError';
+    this.method = context.method;
+    this.url = context.url;
+    if (context.cause !== undefined) {
+      (this as { cause?: unknown }).cause = context.cause;
+    }
+  }
+}
+
+/**
+ * Thrown when a request did not complete within the configured timeout
+ */
+export class VegapTimeoutError extends VegapNetworkError {
+  /**
+   * The timeout that was exceeded, in milliseconds
+   */
+  readonly timeoutMs?: number;
+
+  constructor(message: string, context: VegapErrorContext & { timeoutMs?: number } = {}) {
+    super(message, context);
+    this.name = 'VegapTimeoutError';
+    this.timeoutMs = context.timeoutMs;
+  }
+}
+
+/**
+ * Thrown when a request was cancelled through its AbortSignal
+ */
+export class VegapAbortError extends Error {
+  readonly method?: string;
+  readonly url?: string;
+
+  constructor(message: string, context: VegapErrorContext = {}) {
+    super(message);
+    this.name = 'VegapAbortError';
+    this.method = context.method;
+    this.url = context.url;
+    if (context.cause !== undefined) {
+      (this as { cause?: unknown }).cause = context.cause;
+    }
+  }
+}
+
+/**
+ * Thrown when a request cannot wait for the rate limiter because its queue is full
+ */
+export class VegapQueueFullError extends Error {
+  /**
+   * The limiter whose queue is full ("global", "operation:<name>" or "slug:<slug>")
+   */
+  readonly limiter: string;
+
+  /**
+   * The configured queue size
+   */
+  readonly maxQueueSize: number;
+
+  constructor(limiter: string, maxQueueSize: number) {
+    super(`Rate limiter queue "${limiter}" is full (${maxQueueSize} waiting requests)`);
+    this.name = 'VegapQueueFullError';
+    this.limiter = limiter;
+    this.maxQueueSize = maxQueueSize;
+  }
+}
+
+/**
+ * Thrown when a response does not match its schema
+ */
+export class VegapValidationError extends Error {
+  /**
+   * The issues found, with paths into the validated value
+   */
+  readonly issues: ReadonlyArray<SchemaIssue>;
+
+  /**
+   * The custom slug or mapping ID the response belongs to
+   */
+  readonly target?: string;
+
+  /**
+   * The value that failed validation
+   */
+  readonly value: unknown;
+
+  constructor(issues: ReadonlyArray<SchemaIssue>, value: unknown, target?: string) {
+    super(
+      `Response ${target ? `for ${target} ` : ''}does not match its schema: ${formatSchemaIssues(issues)}`
+    );
+    this.name = 'VegapValidationError';
+    this.issues = issues;
+    this.value = value;
+    this.target = target;
+  }
+}
+
+/**
+ * Format schema issues as "path: message" pairs (at most 5, then a count of the rest)
+ */
+export function formatSchemaIssues(issues: ReadonlyArray<SchemaIssue>): string {
+  const formatted = issues.slice(0, 5).map(issue => {
+    const path = (issue.path || [])
+      .map(segment => String(typeof segment === 'object' ? segment.key : segment))
+      .join('.');
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+  if (issues.length > 5) {
+    formatted.push(`and ${issues.length - 5} more`);
+  }
+  return formatted.join('; ');
+}
+
+/**
+ * Thrown when a webhook request has a missing, malformed or invalid signature,
+ * or a timestamp outside the allowed tolerance
+ */
+export class VegapWebhookVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VegapWebhookVerificationError';
+  }
+}
+
+/**
+ * Parse a Retry-After header value (delta-seconds or HTTP date) into seconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+
+  return undefined;
+}
+
+/**
+ * Build the matching error subclass for a non-OK response
+ * Consumes the response body.
+ */
+export async function createApiError(
+  response: Response,
+  context: VegapErrorContext = {}
+): Promise<VegapApiError> {
+  const fallbackMessage = `HTTP ${response.status}: ${response.statusText}`;
+
+  // Read the body once as text so we can keep it even if it is not JSON
+  const text = await response.text().catch(() => '');
+  let body: VegapError | string | undefined = text || undefined;
+  if (text) {
+    try {
+      body = JSON.parse(text) as VegapError;
+    } catch {
+      // Keep raw text
+    }
+  }
+
+  const errorData = typeof body === 'object' && body !== null ? body : undefined;
+  const message = errorData?.error || errorData?.message || fallbackMessage;
+  const options: VegapApiErrorOptions = {
+    ...context,
+    status: response.status,
+    code: errorData?.code,
+    body,
+    requestId:
+      response.headers.get('x-request-id') ||
+      errorData?.request_id ||
+      undefined,
+    headers: response.headers,
+  };
+
+  switch (response.status) {
+    case 400:
+    case 422:
+      return new VegapInvalidRequestError(message, options);
+    case 401:
+    case 403:
+      return new VegapAuthenticationError(message, options);
+    case 404:
+      return new VegapNotFoundError(message, options);
+    case 429:
+      return new VegapRateLimitError(message, {
+        ...options,
+        retryAfter: parseRetryAfter(response.headers.get('retry-after')),
+      });
+    default:
+      if (response.status >= 500) {
+        return new VegapServerError(message, options);
+      }
+      return new VegapApiError(message, options);
+  }
+}
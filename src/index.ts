@@ -8,7 +8,213 @@ import type {
   PipelineOptions,
   PipelineResponse,
   VegapError,
+  RetryOptions,
+  RetryAttemptInfo,
+  PipelineJob,
+  PipelineJobStatus,
+  PipelineJobList,
+  WaitForJobOptions,
+  ListJobsOptions,
+  WhoAmIResponse,
+  PaginateOptions,
+  PaginationOptions,
+  PaginationStrategy,
+  Page,
+  VegapSchema,
+  ValidationMode,
+  SchemaIssue,
+  SchemaResult,
+  SchemaValidator,
+  StandardSchemaV1,
+  InferSchemaOutput,
+  ProxyResponseMeta,
+  PipelineFileInput,
+  UploadProgress,
+  CsvParseOptions,
+  RequestContext,
+  VegapMiddleware,
+  FetchLike,
+  ConnectionOptions,
+  CacheOptions,
+  CacheStore,
+  CachedResponse,
+  RequestCacheOptions,
+  CacheStatus,
+  TransformBatchOptions,
+  TransformBatchProgress,
+  TransformBatchItemResult,
+  TransformBatchResponse,
+  RequestPriority,
+  RateLimitOptions,
+  RateLimitConfig,
+  RateLimiterStats,
+  RateLimitStats,
+  QueryValue,
+  QueryParams,
+  QueryArrayFormat,
+  QuerySerializer,
+  BodyType,
+  VegapCredential,
+  CredentialProvider,
+  TenantCredentials,
+  TenantCredentialsProvider,
+  VegapPoolConfig,
+  TelemetryAttributes,
+  TelemetrySpanContext,
+  TelemetrySpan,
+  TelemetryTracer,
+  TelemetryMeter,
+  TelemetryOptions,
+  ListResourcesOptions,
+  ResourceList,
+  ResourceBase,
+  ResourceVersion,
+  WriteResourceOptions,
+  Mapping,
+  MappingInput,
+  Endpoint,
+  EndpointInput,
+  PipelineStep,
+  Pipeline,
+  PipelineInput,
+  TestEndpointOptions,
+  EndpointTestResult,
+  TestMappingOptions,
+  TestPipelineOptions,
+  VegapSlugMap,
+  VegapPipelineMap,
+  ProxySlug,
+  PipelineSlug,
+  SlugResponse,
+  SlugProxyOptionsInput,
+  PipelineSlugResult,
+  PipelineSlugOptions,
 } from './types.js';
+import type { JsonRequestOptions } from './request.js';
+import { Jobs } from './jobs.js';
+import { Mappings } from './mappings.js';
+import { Endpoints } from './endpoints.js';
+import { Pipelines } from './pipelines.js';
+import { Paginator } from './pagination.js';
+import { validateResponse, isStandardSchema } from './schema.js';
+import { PipelineResultStream, createUploadBody, isStreamBody } from './streaming.js';
+import { parseCsv } from './csv.js';
+import { runMiddleware } from './middleware.js';
+import { createConnection } from './connection.js';
+import type { Connection } from './connection.js';
+import { ResponseCache } from './cache.js';
+import { transformBatch } from './batch.js';
+import { RequestLimiter } from './ratelimit.js';
+import { Telemetry, OperationTrace, proxyAttributes, transformAttributes, pipelineAttributes } from './telemetry.js';
+import type { SharedResources } from './pool.js';
+import { CredentialCache, staticCredentials, authHeaders, credentialIdentity } from './credentials.js';
+import { mergeHeaders, isPlainObject } from './utils.js';
+import { serializeQuery, serializeBody } from './serialization.js';
+import {
+  VegapNetworkError,
+  VegapTimeoutError,
+  VegapAbortError,
+  VegapAuthenticationError,
+  createApiError,
+} from './errors.js';
+import {
+  resolveRetryOptions,
+  isRetryable,
+  getRetryDelay,
+  sleep,
+} from './retry.js';
+
+/**
+ * Keys that mark the second proxy() argument as a ProxyOptions object
+ * (anything else is treated as plain query params)
+ */
+const PROXY_OPTION_KEYS = ['method', 'body', 'query', 'path', 'headers', 'mappingId'];
+
+/**
+ * Option keys that are common query parameter names too, so they only mark a ProxyOptions
+ * object when their value has the option's type (`{ schema: 'v2' }` stays a query)
+ */
+const TYPED_PROXY_OPTION_KEYS: Record<string, (value: unknown) => boolean> = {
+  retry: value => value === false || isPlainObject(value),
+  signal: value => typeof AbortSignal !== 'undefined' && value instanceof AbortSignal,
+  timeoutMs: value => typeof value === 'number',
+  pagination: value => isPlainObject(value) && typeof value.strategy === 'string',
+  schema: value => typeof value === 'function' || isStandardSchema(value),
+  validationMode: value => value === 'throw' || value === 'report',
+  raw: value => typeof value === 'boolean',
+  cache: value => typeof value === 'boolean' || isPlainObject(value),
+  priority: value => value === 'high' || value === 'normal' || value === 'low',
+  idempotencyKey: value => typeof value === 'string' || (isPlainObject(value) && value.auto === true),
+  bodyType: value => typeof value === 'string' && ['json', 'form', 'multipart', 'text', 'binary'].includes(value),
+  querySerializer: value => typeof value === 'function' || (typeof value === 'string' && ['bracket', 'repeat', 'comma'].includes(value)),
+};
+
+// Methods that may change state on every call, so retrying them needs an idempotency key
+const NON_IDEMPOTENT_METHODS = ['POST', 'PATCH'];
+
+const DEFAULT_TIMEOUT_MS = 60000;
+const DEFAULT_UPLOAD_TIMEOUT_MS = 300000;
+
+/**
+ * Proxy or pipeline options with the idempotency key resolved (given or generated)
+ */
+type WithResolvedKey<O extends { idempotencyKey?: unknown }> = Omit<O, 'idempotencyKey'> & { idempotencyKey?: string };
+
+/**
+ * Per-request options for the internal send() helper
+ */
+interface SendOptions {
+  /**
+   * Retry policy override for this request
+   */
+  retry?: RetryOptions | false;
+
+  /**
+   * Treat the request as safe to repeat regardless of its method
+   */
+  idempotent?: boolean;
+
+  /**
+   * Signal to cancel the request (including pending retries)
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Timeout for each attempt in milliseconds (0 disables it)
+   */
+  timeoutMs?: number;
+
+  /**
+   * Create the request body for each attempt (for bodies that cannot be reused, like streams)
+   */
+  createBody?: () => Promise<RequestInit['body']>;
+
+  /**
+   * The response body is streamed to the caller, so the timeout ends once the headers arrived
+   */
+  streamBody?: boolean;
+
+  /**
+   * Whether the body can be sent again (false for caller-provided streams)
+   * @default true
+   */
+  replayable?: boolean;
+
+  /**
+   * What issued the request (passed on to middleware)
+   */
+  context?: Pick<RequestContext, 'operation' | 'slug' | 'mappingId' | 'pipelineId'>;
+
+  /**
+   * Priority while waiting for the rate limiter
+   */
+  priority?: RequestPriority;
+
+  /**
+   * Span of the operation (its trace context is sent with every attempt)
+   */
+  trace?: OperationTrace;
+}
 
 /**
  * Vegap SDK Client
@@ -28,25 +234,161 @@ import type {
  * ```
  */
 export class Vegap {
-  private apiKey: string;
+  private credentials: CredentialCache;
   private baseUrl: string;
   private companyId?: string;
+  private retry?: RetryOptions | false;
+  private timeoutMs: number;
+  private uploadTimeoutMs: number;
+  private identity?: Promise<WhoAmIResponse>;
+  private schemas = new Map<string, VegapSchema>();
+  private validationMode: ValidationMode;
+  private querySerializer?: QuerySerializer;
+  private middleware: VegapMiddleware[];
+  private fetchImpl?: FetchLike;
+  private connectionOptions?: ConnectionOptions;
+  private connection?: Promise<Connection>;
+  private cache?: ResponseCache;
+  private limiter?: RequestLimiter;
+  private telemetry?: Telemetry;
+
+  /**
+   * Pipeline job tracking (get, wait, cancel, list)
+   */
+  readonly jobs: Jobs;
+
+  /**
+   * Mapping management (CRUD, versions, test runs)
+   */
+  readonly mappings: Mappings;
+
+  /**
+   * Endpoint (custom slug) management (CRUD, versions, test runs)
+   */
+  readonly endpoints: Endpoints;
+
+  /**
+   * Pipeline definition management (CRUD, versions, test runs)
+   */
+  readonly pipelines: Pipelines;
 
-  constructor(config: VegapConfig) {
-    if (!config.apiKey) {
+  /**
+   * @param config - Client configuration
+   * @param shared - Connection, cache, rate limiter and telemetry shared with other clients (used by VegapPool)
+   */
+  constructor(config: VegapConfig, shared?: SharedResources) {
+    const provider = config.credentials || (config.apiKey ? staticCredentials(config.apiKey) : undefined);
+    if (!provider) {
       throw new Error('API key is required');
     }
 
-    this.apiKey = config.apiKey;
+    this.credentials = new CredentialCache(provider, Boolean(config.credentials));
     this.baseUrl = config.baseUrl || 'https://api.vegap.de';
     this.companyId = config.companyId;
+    this.retry = config.retry;
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.uploadTimeoutMs = config.uploadTimeoutMs ?? DEFAULT_UPLOAD_TIMEOUT_MS;
+    this.validationMode = config.validationMode || 'throw';
+    this.querySerializer = config.querySerializer;
+    this.middleware = [...(config.middleware || [])];
+    this.fetchImpl = config.fetch;
+    this.connectionOptions = config.connection;
+    if (shared) {
+      this.connection = shared.connection();
+      this.cache = shared.cache;
+      this.limiter = shared.limiter;
+      this.telemetry = shared.telemetry;
+    } else {
+      this.cache = config.cache ? new ResponseCache(config.cache) : undefined;
+      this.limiter = config.rateLimit ? new RequestLimiter(config.rateLimit) : undefined;
+      this.telemetry = config.telemetry ? new Telemetry(config.telemetry) : undefined;
+    }
+    Object.entries(config.schemas || {}).forEach(([key, schema]) => this.registerSchema(key, schema));
+    const request = this.requestJson.bind(this);
+    this.jobs = new Jobs(request);
+    this.mappings = new Mappings(request);
+    this.endpoints = new Endpoints(request);
+    this.pipelines = new Pipelines(request);
   }
 
   /**
    * Set the company ID (useful if you want to override the inferred one)
+   * Also discards the cached whoami() result.
    */
   setCompanyId(companyId: string): void {
     this.companyId = companyId;
+    this.identity = undefined;
+  }
+
+  /**
+   * Add middleware that wraps every request attempt
+   * Middleware runs in the order it was added (after VegapConfig.middleware).
+   * 
+   * @example
+   * ```typescript
+   * vegap
+   *   .use(loggingMiddleware())
+   *   .use(headersMiddleware({ 'X-Service': 'billing' }))
+   *   .use(async (ctx, next) => {
+   *     const response = await next();
+   *     metrics.record(ctx.operation, response.status);
+   *     return response;
+   *   });
+   * ```
+   */
+  use(middleware: VegapMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Register a schema for a custom slug or mapping ID
+   * proxy() data and transform() output for it are validated against the schema,
+   * unless a schema is passed per call.
+   * 
+   * @example
+   * ```typescript
+   * import { z } from 'zod';
+   * 
+   * vegap.registerSchema('stripe-customers', z.object({
+   *   id: z.string(),
+   *   email: z.string().email(),
+   * }));
+   * ```
+   */
+  registerSchema(slugOrMappingId: string, schema: VegapSchema): void {
+    this.schemas.set(slugOrMappingId.toLowerCase(), schema);
+  }
+
+  /**
+   * Remove a schema registered for a custom slug or mapping ID
+   */
+  unregisterSchema(slugOrMappingId: string): void {
+    this.schemas.delete(slugOrMappingId.toLowerCase());
+  }
+
+  /**
+   * Get the company and scopes of the configured API key
+   * The result is cached, and concurrent calls share a single request.
+   * 
+   * @example
+   * ```typescript
+   * const { company_id, scopes } = await vegap.whoami();
+   * ```
+   */
+  whoami(): Promise<WhoAmIResponse> {
+    if (!this.identity) {
+      const identity = this.requestJson<WhoAmIResponse>('GET', '/api/auth/whoami', { operation: 'whoami' });
+      this.identity = identity;
+
+      // Don't cache failures, so the next call tries again
+      identity.catch(() => {
+        if (this.identity === identity) {
+          this.identity = undefined;
+        }
+      });
+    }
+    return this.identity;
   }
 
   /**
@@ -82,40 +424,565 @@ export class Vegap {
    * });
    * ```
    */
+  proxy<T = never, S extends ProxySlug = ProxySlug>(
+    identifier: S,
+    options?: SlugProxyOptionsInput<S, T>
+  ): Promise<ProxyResponse<SlugResponse<S, T>>>;
+  // Mapping IDs have no generated types, so only T (or the schema) types their data
+  proxy<T = never>(options: ProxyOptionsInput<T>): Promise<ProxyResponse<[T] extends [never] ? any : T>>;
   async proxy<T = any>(
-    identifier: string | ProxyOptionsInput,
-    options?: ProxyOptionsInput
+    identifier: string | ProxyOptionsInput<T>,
+    options?: ProxyOptionsInput<T>
   ): Promise<ProxyResponse<T>> {
-    // Determine if first parameter is a custom slug or options object
-    let customSlug: string | undefined;
-    let normalizedOptions: ProxyOptions;
+    const { customSlug, options: proxyOptions } = normalizeProxyArgs<ProxyOptions<T>>(identifier, options);
+    return this.runProxy(customSlug, proxyOptions);
+  }
 
-    if (typeof identifier === 'string') {
-      // First parameter is a custom slug
-      customSlug = identifier;
-      
-      // Normalize options - if it's a simple object without method/body/query/path/headers,
-      // treat it as query params for GET requests
-      if (!options) {
-        normalizedOptions = { method: 'GET' };
-      } else if ('method' in options || 'body' in options || 'query' in options || 'path' in options || 'headers' in options || 'mappingId' in options) {
-        // It's already a ProxyOptions object
-        normalizedOptions = options as ProxyOptions;
-      } else {
-        // It's a simple object - treat as query params for GET
-        normalizedOptions = {
-          query: options as Record<string, string | number | boolean | undefined>,
-          method: 'GET',
+  /**
+   * Send a proxy request and build its response (shared by proxy() and paginate())
+   * Runs in the operation span, strips the `_vegap` meta and validates the data against its schema.
+   */
+  private async runProxy<T>(customSlug: string | undefined, proxyOptions: ProxyOptions<T>): Promise<ProxyResponse<T>> {
+    const method = proxyOptions.method || 'GET';
+    const idempotencyKey = this.idempotencyKeyFor(proxyOptions.method ?? 'GET', proxyOptions);
+    const normalizedOptions = { ...proxyOptions, idempotencyKey };
+    const attributes = {
+      'vegap.slug': customSlug,
+      'vegap.mapping_id': normalizedOptions.mappingId,
+      'http.request.method': method,
+    };
+
+    return this.instrument('proxy', attributes, async trace => {
+      const startedAt = Date.now();
+
+      // Make request (or serve it from the cache)
+      const { response, cacheStatus } = await this.sendProxyCached(customSlug, normalizedOptions, trace);
+      const raw = normalizedOptions.raw ? response.clone() : undefined;
+
+      // Parse response
+      const body = await response.json();
+      const { data, meta } = extractProxyMeta(body, response.headers, idempotencyKey);
+      const requestId = response.headers.get('x-request-id');
+    
+      // The response from the proxy endpoint is already the transformed data
+      // Return it directly, wrapped in ProxyResponse format
+      const result: ProxyResponse<T> = {
+        data: data as T,
+        status: response.status,
+        headers: response.headers,
+        latencyMs: Date.now() - startedAt,
+        ...(meta && { meta }),
+        ...(requestId && { requestId }),
+        ...(raw && { raw }),
+        ...(cacheStatus && { cache: cacheStatus }),
+      };
+
+      const target = normalizedOptions.mappingId || customSlug;
+      const schema = normalizedOptions.schema || this.getSchema(target);
+      if (!schema) {
+        return result;
+      }
+
+      const validated = await validateResponse(
+        schema,
+        data,
+        normalizedOptions.validationMode || this.validationMode,
+        target
+      );
+      return {
+        ...result,
+        data: validated.value,
+        ...(validated.issues && { validationIssues: validated.issues }),
+      };
+    }, proxyAttributes);
+  }
+
+  /**
+   * Iterate over all pages of a proxied list endpoint
+   * Builds on proxy(): query, path, headers etc. are sent with every page request,
+   * and the pagination parameters are merged into the query.
+   * 
+   * @param identifier - Either a custom slug (string) or options object with mappingId
+   * @param options - Proxy options plus a `pagination` strategy
+   * @returns A Paginator, which is an AsyncIterable of items (use `.pages()` to iterate pages)
+   * 
+   * @example
+   * ```typescript
+   * // Stripe-style cursor pagination
+   * for await (const customer of vegap.paginate<Customer>('stripe-customers', {
+   *   query: { limit: 100 },
+   *   pagination: {
+   *     strategy: 'cursor',
+   *     cursorParam: 'starting_after',
+   *     cursorFromItem: 'id',
+   *     hasMorePath: 'has_more',
+   *   },
+   * })) {
+   *   console.log(customer.id);
+   * }
+   * 
+   * // Offset/limit, page by page
+   * for await (const page of vegap.paginate('crm-contacts', {
+   *   pagination: { strategy: 'offset', pageSize: 50, maxPages: 10 },
+   * }).pages()) {
+   *   console.log(page.pageNumber, page.items.length);
+   * }
+   * ```
+   */
+  paginate<T = any>(
+    identifier: string | PaginateOptions,
+    options?: PaginateOptions
+  ): Paginator<T> {
+    const { customSlug, options: normalizedOptions } = normalizeProxyArgs(identifier, options);
+    const { pagination = { strategy: 'cursor' }, query = {}, ...proxyOptions } = normalizedOptions as PaginateOptions;
+
+    // Every page goes through the same path as proxy() (span, meta, schema validation)
+    return new Paginator<T>(async pageQuery => {
+      const { data, headers } = await this.runProxy(customSlug, { ...proxyOptions, query: pageQuery });
+      return { data, headers };
+    }, pagination, query);
+  }
+
+  /**
+   * Execute a processing pipeline with file or data
+   * 
+   * @param identifier - Either a custom slug (string) or options object with pipelineId
+   * @param options - Pipeline execution options (file, data, headers)
+   * @returns The pipeline execution result
+   * 
+   * @example
+   * ```typescript
+   * // Using custom slug with file upload
+   * const result = await vegap.pipeline('invoice-processor', {
+   *   file: fileInput.files[0]
+   * });
+   * 
+   * // Using custom slug with JSON data
+   * const result = await vegap.pipeline('invoice-processor', {
+   *   data: { invoice_number: 'INV-123', amount: 1000 }
+   * });
+   * 
+   * // Using pipeline ID
+   * const result = await vegap.pipeline({
+   *   pipelineId: '691b353fc86e42ea8b569c8c',
+   *   file: fileInput.files[0]
+   * });
+   * ```
+   */
+  pipeline<T = never, S extends PipelineSlug = PipelineSlug>(
+    identifier: S,
+    options?: PipelineSlugOptions<S>
+  ): Promise<PipelineResponse<PipelineSlugResult<S, T>>>;
+  // Pipeline IDs have no generated types, so only T types their result
+  pipeline<T = never>(options: PipelineOptions): Promise<PipelineResponse<[T] extends [never] ? any : T>>;
+  async pipeline<T = any>(
+    identifier: string | PipelineOptions,
+    options?: PipelineOptions
+  ): Promise<PipelineResponse<T>> {
+    const { customSlug, options: pipelineOptions } = normalizePipelineArgs(identifier, options);
+    const idempotencyKey = this.idempotencyKeyFor('POST', pipelineOptions);
+    const normalizedOptions = { ...pipelineOptions, idempotencyKey };
+    const attributes = { 'vegap.slug': customSlug, 'vegap.pipeline_id': normalizedOptions.pipelineId };
+
+    return this.instrument('pipeline', attributes, async trace => {
+      // Make request
+      const response = await this.sendPipeline(customSlug, normalizedOptions, trace);
+      const idempotency = {
+        ...(idempotencyKey && { idempotency_key: idempotencyKey }),
+        ...(isIdempotentReplay(response.headers) && { idempotent_replayed: true }),
+      };
+
+      // Handle CSV response (for CSV output format)
+      // The job details are sent as headers, since the body is the CSV itself
+      const contentType = response.headers.get('content-type');
+      if (contentType && contentType.includes('text/csv')) {
+        const { csv, includeRawText } = normalizedOptions;
+        const csvText = await response.text();
+        const processingTime = Number(response.headers.get('x-vegap-processing-time-ms'));
+        return {
+          success: true,
+          job_id: response.headers.get('x-vegap-job-id') || '',
+          result: await parseCsv(csvText, csv) as T,
+          status: (response.headers.get('x-vegap-job-status') as PipelineJobStatus | null) || 'completed',
+          ...(!Number.isNaN(processingTime) && response.headers.has('x-vegap-processing-time-ms') && {
+            processing_time_ms: processingTime,
+          }),
+          ...(includeRawText && { raw_text: csvText }),
+          ...idempotency,
         };
       }
+
+      // Parse JSON response
+      const result = await response.json() as PipelineResponse<T>;
+    
+      return { ...result, ...idempotency };
+    }, pipelineAttributes);
+  }
+
+  /**
+   * Execute a processing pipeline and stream its result instead of buffering it
+   * Accepts the same options as pipeline().
+   * 
+   * @returns The streamed result: read it as bytes (`body`), text or rows
+   * 
+   * @example
+   * ```typescript
+   * // Upload a large export from disk and process the CSV output row by row
+   * const result = await vegap.pipelineStream('export-processor', {
+   *   file: '/data/export.csv',
+   *   contentType: 'text/csv',
+   *   onUploadProgress: ({ loaded, total }) => console.log(`${loaded}/${total}`),
+   * });
+   * 
+   * for await (const row of result.rows()) {
+   *   await db.insert(row);
+   * }
+   * ```
+   */
+  async pipelineStream<S extends PipelineSlug = PipelineSlug>(
+    identifier: S | PipelineOptions,
+    options?: PipelineSlugOptions<S>
+  ): Promise<PipelineResultStream> {
+    const { customSlug, options: pipelineOptions } = normalizePipelineArgs(identifier, options);
+    const normalizedOptions = { ...pipelineOptions, idempotencyKey: this.idempotencyKeyFor('POST', pipelineOptions) };
+    const attributes = { 'vegap.slug': customSlug, 'vegap.pipeline_id': normalizedOptions.pipelineId };
+
+    // The span ends once the response headers arrived (the result is streamed afterwards)
+    return this.instrument('pipeline', attributes, async trace => {
+      const response = await this.sendPipeline(customSlug, normalizedOptions, trace, true);
+      return new PipelineResultStream(response);
+    });
+  }
+
+  /**
+   * Transform a raw API response using a mapping
+   * 
+   * @param options - Transform options (mappingId and rawResponse)
+   * @returns The transformed response
+   * 
+   * @example
+   * ```typescript
+   * const transformed = await vegap.transform({
+   *   mappingId: '507f1f77bcf86cd799439011',
+   *   rawResponse: {
+   *     id: 'cus_123',
+   *     name: 'John Doe',
+   *     email: 'john@example.com'
+   *   }
+   * });
+   * ```
+   */
+  async transform<T = any>(
+    options: TransformOptions<T>
+  ): Promise<TransformResponse<T>> {
+    const { mappingId, rawResponse, signal, timeoutMs, cache: cacheOptions, priority } = options;
+
+    if (!mappingId) {
+      throw new Error('mappingId is required');
+    }
+
+    if (!rawResponse) {
+      throw new Error('rawResponse is required');
+    }
+
+    return this.instrument('transform', { 'vegap.mapping_id': mappingId }, async trace => {
+      // Build URL
+      const url = `${this.baseUrl}/api/transform`;
+
+      // Prepare request body
+      const requestBody = {
+        mapping_id: mappingId,
+        raw_response: rawResponse,
+      };
+
+      // Make request
+      const send = () => this.send(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(requestBody),
+      }, {
+        // Transforming a raw response has no side effects, so it is always safe to repeat
+        idempotent: true,
+        signal,
+        timeoutMs,
+        context: { operation: 'transform', mappingId },
+        priority,
+        trace,
+      });
+
+      // Identical transforms give identical results, so they can be served from the cache
+      const cache = this.getCache(cacheOptions, this.cache?.cachesTransforms ?? false);
+      const policy = cache?.policyFor(mappingId, cacheOptions);
+      let response: Response;
+      let cacheStatus: CacheStatus | undefined;
+      if (cache && policy) {
+        const auth = credentialIdentity(await this.credentials.get());
+        const key = await cache.key('transform', mappingId, { auth, baseUrl: this.baseUrl, rawResponse });
+        ({ response, status: cacheStatus } = await cache.fetch(key, policy, send, isSuccessfulTransform));
+      } else {
+        response = await send();
+      }
+
+      // Parse response
+      const parsed = await response.json() as TransformResponse<T>;
+      const data = cacheStatus ? { ...parsed, cache: cacheStatus } : parsed;
+
+      // Only successful transformations have an output worth validating
+      const schema = options.schema || this.getSchema(mappingId);
+      if (!schema || !data.success) {
+        return data;
+      }
+
+      const validated = await validateResponse(
+        schema,
+        data.output,
+        options.validationMode || this.validationMode,
+        mappingId
+      );
+      return {
+        ...data,
+        output: validated.value,
+        ...(validated.issues && { validationIssues: validated.issues }),
+      };
+    }, transformAttributes);
+  }
+
+  /**
+   * Transform many raw API responses with the same mapping
+   * Runs the transforms with bounded concurrency and reports the result of each item
+   * in input order, plus the total tokens and AI cost.
+   * 
+   * @param options - Transform options with `items` instead of `rawResponse`
+   * @returns The per-item results and totals (failed items do not reject the batch)
+   * 
+   * @example
+   * ```typescript
+   * const batch = await vegap.transformBatch({
+   *   mappingId: '507f1f77bcf86cd799439011',
+   *   items: historicalRecords,
+   *   concurrency: 10,
+   *   onProgress: ({ completed, total }) => console.log(`${completed}/${total}`),
+   * });
+   * 
+   * for (const item of batch.results) {
+   *   if (!item.success) {
+   *     console.error(item.index, item.errors);
+   *   }
+   * }
+   * console.log(batch.succeeded, batch.failed, batch.ai_cost_usd);
+   * ```
+   */
+  transformBatch<T = any>(
+    options: TransformBatchOptions<T>
+  ): Promise<TransformBatchResponse<T>> {
+    return transformBatch<T>(itemOptions => this.transform<T>(itemOptions), options);
+  }
+
+  /**
+   * Get the statistics of the rate limiters (active, queued, processed, rejected, ...)
+   * Returns undefined if rate limiting is not configured.
+   * 
+   * @example
+   * ```typescript
+   * setInterval(() => {
+   *   const stats = vegap.getRateLimitStats();
+   *   metrics.gauge('vegap.queue.size', stats?.global.queued ?? 0);
+   * }, 10000);
+   * ```
+   */
+  getRateLimitStats(): RateLimitStats | undefined {
+    return this.limiter?.stats();
+  }
+
+  /**
+   * Remove cached responses for a custom slug or mapping ID (proxy and transform),
+   * or all cached responses if none is given
+   * 
+   * @example
+   * ```typescript
+   * await vegap.proxy('crm-contacts', { method: 'POST', body: contact });
+   * await vegap.invalidateCache('crm-contacts');
+   * ```
+   */
+  async invalidateCache(slugOrMappingId?: string): Promise<void> {
+    await this.cache?.invalidate(slugOrMappingId);
+  }
+
+  /**
+   * Get the response cache for a request, or undefined if the request bypasses it
+   * Per-request cache options enable caching even without VegapConfig.cache (using an in-memory store).
+   */
+  private getCache(request: RequestCacheOptions | boolean | undefined, enabledByDefault = true): ResponseCache | undefined {
+    if (request === false || (request === undefined && !enabledByDefault)) {
+      return undefined;
+    }
+    if (!this.cache && request !== undefined) {
+      this.cache = new ResponseCache();
+    }
+    return this.cache;
+  }
+
+  /**
+   * Run an operation in a telemetry span (or directly, if telemetry is not configured)
+   */
+  private instrument<R>(
+    operation: string,
+    attributes: TelemetryAttributes,
+    run: (trace?: OperationTrace) => Promise<R>,
+    describe?: (result: R) => TelemetryAttributes
+  ): Promise<R> {
+    return this.telemetry ? this.telemetry.run(operation, attributes, run, describe) : run();
+  }
+
+  /**
+   * Look up the schema registered for a custom slug or mapping ID
+   */
+  private getSchema(slugOrMappingId?: string): VegapSchema | undefined {
+    return slugOrMappingId ? this.schemas.get(slugOrMappingId.toLowerCase()) : undefined;
+  }
+
+  /**
+   * Build the pipeline URL for a custom slug or pipeline ID and send the file or data
+   */
+  private async sendPipeline(
+    customSlug: string | undefined,
+    options: WithResolvedKey<PipelineOptions>,
+    trace?: OperationTrace,
+    streamBody = false
+  ): Promise<Response> {
+    const {
+      file,
+      fileName,
+      contentType,
+      onUploadProgress,
+      data,
+      headers = {},
+      pipelineId,
+      idempotencyKey,
+      retry,
+      signal,
+      timeoutMs,
+      uploadTimeoutMs,
+      priority,
+    } = options;
+
+    // Validate that either file or data is provided
+    if (!file && !data) {
+      throw new Error('Either file or data must be provided');
+    }
+
+    // Build URL based on whether we're using pipeline ID or custom slug
+    let url: string;
+    
+    if (pipelineId) {
+      // Use pipeline ID route: /api/pipelines/execute/:pipelineId
+      url = `${this.baseUrl}/api/pipelines/execute/${pipelineId}`;
+    } else if (customSlug) {
+      // Use custom slug route: /api/pipelines/custom/:companyId/:slug
+      const companyId = await this.getCompanyId();
+      url = `${this.baseUrl}/api/pipelines/custom/${companyId}/${customSlug.toLowerCase()}`;
     } else {
-      // First parameter is options object (must contain mappingId)
-      normalizedOptions = identifier as ProxyOptions;
-      if (!normalizedOptions.mappingId) {
-        throw new Error('If first parameter is an options object, it must contain mappingId');
+      throw new Error('Either customSlug (string) or pipelineId (in options) must be provided');
+    }
+
+    // Prepare request options
+    const requestOptions: RequestInit = {
+      method: 'POST',
+      headers: withIdempotencyKey(headers, idempotencyKey),
+    };
+
+    if (file) {
+      // File upload - FormData for in-memory files, a streamed multipart body otherwise
+      const upload = await createUploadBody(file, { fileName, contentType, onUploadProgress });
+      if (upload.contentType) {
+        requestOptions.headers = {
+          ...requestOptions.headers,
+          'Content-Type': upload.contentType,
+        };
       }
+
+      // File uploads get their own (longer) timeout
+      // Caller-provided streams can only be read once, so they are never retried
+      return this.send(url, requestOptions, {
+        retry: upload.replayable ? retry : false,
+        signal,
+        timeoutMs: uploadTimeoutMs ?? this.uploadTimeoutMs,
+        createBody: upload.createBody,
+        replayable: upload.replayable,
+        streamBody,
+        context: { operation: 'pipeline', slug: customSlug, pipelineId },
+        priority,
+        trace,
+      });
+    }
+
+    // JSON data
+    requestOptions.headers = {
+      ...requestOptions.headers,
+      'Content-Type': 'application/json',
+    };
+    requestOptions.body = JSON.stringify({ data });
+
+    return this.send(url, requestOptions, {
+      retry,
+      signal,
+      timeoutMs,
+      streamBody,
+      context: { operation: 'pipeline', slug: customSlug, pipelineId },
+      priority,
+      trace,
+    });
+  }
+
+  /**
+   * Send a proxy request through the response cache (GET requests only)
+   */
+  private async sendProxyCached(
+    customSlug: string | undefined,
+    options: WithResolvedKey<ProxyOptions>,
+    trace?: OperationTrace
+  ): Promise<{ response: Response; cacheStatus?: CacheStatus }> {
+    const { method = 'GET', mappingId, path, query = {}, headers = {}, cache: cacheOptions } = options;
+    const target = mappingId || customSlug;
+    const cache = method === 'GET' && target ? this.getCache(cacheOptions) : undefined;
+    const policy = target ? cache?.policyFor(target, cacheOptions) : null;
+
+    if (!cache || !policy || !target) {
+      return { response: await this.sendProxy(customSlug, options, trace) };
     }
 
+    // The credential is part of the key, so clients sharing a store never see each other's data
+    const varyHeaders = cache.varyHeaders;
+    const key = await cache.key('proxy', target, {
+      auth: credentialIdentity(await this.credentials.get()),
+      baseUrl: this.baseUrl,
+      companyId: this.companyId,
+      path: path?.replace(/^\//, ''),
+      // The query as it is sent (so different serializers get different entries), in any key order
+      query: serializeQuery(
+        Object.fromEntries(Object.entries(query).sort(([a], [b]) => a.localeCompare(b))),
+        options.querySerializer ?? this.querySerializer
+      ),
+      headers: Object.entries(headers)
+        .filter(([name]) => varyHeaders.includes(name.toLowerCase()))
+        .map(([name, value]) => [name.toLowerCase(), value])
+        .sort(),
+    });
+
+    const { response, status } = await cache.fetch(key, policy, () => this.sendProxy(customSlug, options, trace));
+    return { response, cacheStatus: status };
+  }
+
+  /**
+   * Build the proxy URL for a custom slug or mapping ID and send the request
+   */
+  private async sendProxy(
+    customSlug: string | undefined,
+    options: WithResolvedKey<ProxyOptions>,
+    trace?: OperationTrace
+  ): Promise<Response> {
     const {
       query = {},
       body,
@@ -123,7 +990,14 @@ export class Vegap {
       path,
       headers = {},
       mappingId,
-    } = normalizedOptions;
+      retry,
+      signal,
+      timeoutMs,
+      priority,
+      idempotencyKey,
+      bodyType,
+    } = options;
+    const querySerializer = options.querySerializer ?? this.querySerializer;
 
     // Build URL based on whether we're using custom slug or mapping ID
     let url: string;
@@ -152,282 +1026,482 @@ export class Vegap {
     }
 
     // Build query string
-    const queryParams = new URLSearchParams();
-    Object.entries(query).forEach(([key, value]) => {
-      if (value !== undefined && value !== null) {
-        queryParams.append(key, String(value));
-      }
-    });
-    
-    const queryString = queryParams.toString();
-    if (queryString) {
-      url += `?${queryString}`;
+    url += serializeQuery(query, querySerializer);
+
+    // Encode the body for POST, PUT, PATCH requests
+    const serialized = body && ['POST', 'PUT', 'PATCH'].includes(method)
+      ? serializeBody(body, bodyType, querySerializer)
+      : { body: undefined, contentType: 'application/json' };
+
+    // Prepare request options
+    // A Content-Type passed in headers (in any case) takes precedence over the body type's
+    const requestHeaders = new Headers(withIdempotencyKey(headers, idempotencyKey));
+    if (serialized.contentType && !requestHeaders.has('content-type')) {
+      requestHeaders.set('Content-Type', serialized.contentType);
+    }
+    const requestOptions: RequestInit = { method, headers: requestHeaders };
+    if (serialized.body !== undefined) {
+      requestOptions.body = serialized.body;
     }
 
-    // Prepare request options
+    return this.send(url, requestOptions, {
+      retry,
+      signal,
+      timeoutMs,
+      context: { operation: 'proxy', slug: customSlug, mappingId },
+      priority,
+      trace,
+    });
+  }
+
+  /**
+   * Send a JSON request to a path below the base URL and parse the JSON response
+   * Shared by the resource namespaces (jobs, mappings, endpoints, pipelines)
+   */
+  private async requestJson<T>(
+    method: string,
+    path: string,
+    options: JsonRequestOptions = {}
+  ): Promise<T> {
+    const { query = {}, body, signal, operation = 'request' } = options;
+    const url = `${this.baseUrl}${path}${serializeQuery(query)}`;
+
     const requestOptions: RequestInit = {
       method,
       headers: {
-        'X-API-Key': this.apiKey,
         'Content-Type': 'application/json',
-        ...headers,
       },
     };
-
-    // Add body for POST, PUT, PATCH requests
-    if (body && ['POST', 'PUT', 'PATCH'].includes(method)) {
-      requestOptions.body = typeof body === 'string' 
-        ? body 
-        : JSON.stringify(body);
+    if (body !== undefined) {
+      requestOptions.body = JSON.stringify(body);
     }
 
-    // Make request
-    const response = await fetch(url, requestOptions);
-
-    // Handle errors
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ 
-        error: `HTTP ${response.status}: ${response.statusText}` 
-      })) as VegapError;
-      throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
-    }
+    const response = await this.send(url, requestOptions, { signal, context: { operation } });
 
-    // Parse response
-    const data = await response.json() as T;
-    
-    // The response from the proxy endpoint is already the transformed data
-    // Return it directly, wrapped in ProxyResponse format
-    return {
-      data,
-    };
+    // DELETE and similar requests may answer without a body
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
   }
 
   /**
-   * Execute a processing pipeline with file or data
-   * 
-   * @param identifier - Either a custom slug (string) or options object with pipelineId
-   * @param options - Pipeline execution options (file, data, headers)
-   * @returns The pipeline execution result
-   * 
-   * @example
-   * ```typescript
-   * // Using custom slug with file upload
-   * const result = await vegap.pipeline('invoice-processor', {
-   *   file: fileInput.files[0]
-   * });
-   * 
-   * // Using custom slug with JSON data
-   * const result = await vegap.pipeline('invoice-processor', {
-   *   data: { invoice_number: 'INV-123', amount: 1000 }
-   * });
-   * 
-   * // Using pipeline ID
-   * const result = await vegap.pipeline({
-   *   pipelineId: '691b353fc86e42ea8b569c8c',
-   *   file: fileInput.files[0]
-   * });
-   * ```
+   * Send a request to the Vegap API
+   * Retries according to the resolved retry policy, then throws a typed
+   * VegapApiError for non-OK responses, a VegapNetworkError if no response was received,
+   * a VegapTimeoutError if an attempt timed out or a VegapAbortError if the signal was aborted
    */
-  async pipeline<T = any>(
-    identifier: string | PipelineOptions,
-    options?: PipelineOptions
-  ): Promise<PipelineResponse<T>> {
-    // Determine if first parameter is a custom slug or options object
-    let customSlug: string | undefined;
-    let normalizedOptions: PipelineOptions;
-
-    if (typeof identifier === 'string') {
-      // First parameter is a custom slug
-      customSlug = identifier;
-      normalizedOptions = options || {};
-    } else {
-      // First parameter is options object (must contain pipelineId or we'll use custom slug)
-      normalizedOptions = identifier;
-      if (!normalizedOptions.pipelineId && !customSlug) {
-        throw new Error('If first parameter is an options object, it must contain pipelineId, or use custom slug as first parameter');
+  private async send(url: string, init: RequestInit, options: SendOptions = {}): Promise<Response> {
+    const method = (init.method || 'GET').toUpperCase();
+    const policy = resolveRetryOptions(this.retry, options.retry);
+    const idempotent = options.idempotent || hasIdempotencyKey(init.headers);
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    const { signal, context = { operation: 'request' }, trace } = options;
+    const requestInit = trace ? trace.inject(init) : init;
+    let refreshed = false;
+
+    for (let attempt = 1; ; attempt++) {
+      let credential: VegapCredential | undefined;
+      try {
+        credential = await this.credentials.get();
+        // Every attempt waits for the rate limiter (the body is only created once it may be sent)
+        const release = await this.limiter?.acquire(context, options.priority, signal);
+        try {
+          const body = options.createBody ? { body: await options.createBody() } : {};
+          const ctx: RequestContext = {
+            ...context,
+            url,
+            init: mergeHeaders({ ...requestInit, ...body }, authHeaders(credential)),
+            attempt,
+            state: {},
+          };
+          const response = await this.sendOnce(ctx, timeoutMs, signal, options.streamBody);
+          if (trace) {
+            trace.status = response.status;
+          }
+          return response;
+        } finally {
+          release?.();
+        }
+      } catch (caught) {
+        const error = this.credentials.redact(caught);
+
+        // A rotated or revoked credential is refreshed once, then the request is sent again
+        if (
+          credential && !refreshed && this.credentials.refreshable && options.replayable !== false &&
+          error instanceof VegapAuthenticationError && error.status === 401
+        ) {
+          refreshed = true;
+          await this.credentials.refresh(credential);
+          continue;
+        }
+
+        if (!policy || attempt >= policy.maxAttempts || !isRetryable(policy, error, method, idempotent)) {
+          throw error;
+        }
+
+        const delayMs = getRetryDelay(policy, attempt, error);
+        if (delayMs === null) {
+          throw error;
+        }
+
+        const info: RetryAttemptInfo = { attempt, delayMs, error: error as Error, method, url };
+        policy.onRetry?.(info);
+        trace?.retry(info);
+        await sleep(delayMs, signal).catch(reason => {
+          throw new VegapAbortError(`Request to ${url} was aborted`, { method, url, cause: reason });
+        });
       }
     }
+  }
 
-    const {
-      file,
-      data,
-      headers = {},
-      pipelineId,
-    } = normalizedOptions;
+  /**
+   * Perform a single attempt through the middleware chain
+   */
+  private async sendOnce(
+    ctx: RequestContext,
+    timeoutMs: number,
+    signal?: AbortSignal,
+    streamBody?: boolean
+  ): Promise<Response> {
+    // Errors are redacted before middleware sees them, so no credential ends up in logs
+    const response = await runMiddleware(this.middleware, ctx, () =>
+      this.dispatch(ctx.url, ctx.init, timeoutMs, signal, streamBody).catch(error => {
+        throw this.credentials.redact(error);
+      })
+    );
+    this.limiter?.observe(response.status, response.headers);
 
-    // Validate that either file or data is provided
-    if (!file && !data) {
-      throw new Error('Either file or data must be provided');
+    if (!response.ok) {
+      throw await createApiError(response, {
+        method: (ctx.init.method || 'GET').toUpperCase(),
+        url: ctx.url,
+      });
     }
 
-    // Build URL based on whether we're using pipeline ID or custom slug
-    let url: string;
-    
-    if (pipelineId) {
-      // Use pipeline ID route: /api/pipelines/execute/:pipelineId
-      url = `${this.baseUrl}/api/pipelines/execute/${pipelineId}`;
-    } else if (customSlug) {
-      // Use custom slug route: /api/pipelines/custom/:companyId/:slug
-      const companyId = await this.getCompanyId();
-      url = `${this.baseUrl}/api/pipelines/custom/${companyId}/${customSlug.toLowerCase()}`;
-    } else {
-      throw new Error('Either customSlug (string) or pipelineId (in options) must be provided');
+    return response;
+  }
+
+  /**
+   * Call fetch with the timeout and the caller's signal applied
+   * Resolves with any response (including non-OK ones); rejects with a VegapTimeoutError,
+   * VegapAbortError or VegapNetworkError if no response was received.
+   * The timeout also covers reading the body (reads then fail with the same errors),
+   * unless `streamBody` is set.
+   */
+  private async dispatch(
+    url: string,
+    init: RequestInit,
+    timeoutMs: number,
+    signal?: AbortSignal,
+    streamBody = false
+  ): Promise<Response> {
+    const method = (init.method || 'GET').toUpperCase();
+    if (signal?.aborted) {
+      throw new VegapAbortError(`Request to ${url} was aborted`, { method, url, cause: signal.reason });
     }
 
-    // Prepare request options
-    const requestOptions: RequestInit = {
-      method: 'POST',
-      headers: {
-        'X-API-Key': this.apiKey,
-        ...headers,
-      },
+    // Combine the caller's signal with our own timeout
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const release = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
     };
+    if (timeoutMs > 0) {
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+        release();
+      }, timeoutMs);
+    }
 
-    // Handle file upload or JSON data
-    if (file) {
-      // File upload - use FormData
-      const formData = new FormData();
-      
-      // Handle different file types
-      if (file instanceof File || file instanceof Blob) {
-        formData.append('file', file);
-      } else if (typeof Buffer !== 'undefined' && Buffer.isBuffer && Buffer.isBuffer(file)) {
-        // Node.js Buffer - convert to Blob for browser compatibility
-        const blob = new Blob([file]);
-        formData.append('file', blob);
-      } else if (file instanceof Uint8Array || (file as any).constructor?.name === 'Buffer') {
-        // Handle Buffer-like objects
-        const blob = new Blob([file as any]);
-        formData.append('file', blob);
-      } else {
-        throw new Error('Unsupported file type. Use File, Blob, or Buffer.');
+    const toError = (error: unknown): Error => {
+      if (timedOut) {
+        return new VegapTimeoutError(`Request to ${url} timed out after ${timeoutMs}ms`, {
+          method,
+          url,
+          timeoutMs,
+          cause: error,
+        });
       }
-      
-      // Don't set Content-Type header - browser will set it with boundary
-      requestOptions.body = formData;
-    } else if (data) {
-      // JSON data
-      requestOptions.headers = {
-        ...requestOptions.headers,
-        'Content-Type': 'application/json',
-      };
-      requestOptions.body = JSON.stringify({ data });
-    }
+      if (signal?.aborted) {
+        return new VegapAbortError(`Request to ${url} was aborted`, { method, url, cause: error });
+      }
+      return new VegapNetworkError(
+        `Request to ${url} failed: ${error instanceof Error ? error.message : String(error)}`,
+        { method, url, cause: error }
+      );
+    };
 
-    // Make request
-    const response = await fetch(url, requestOptions);
+    let response: Response;
+    try {
+      const connection = await this.getConnection();
+      // Resolve the global fetch per request, so it can still be replaced after the client was created
+      const fetchImpl = this.fetchImpl || connection.fetch || fetch;
 
-    // Handle errors
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ 
-        error: `HTTP ${response.status}: ${response.statusText}` 
-      })) as VegapError;
-      throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+      // Streamed bodies must be sent as half-duplex
+      response = await fetchImpl(url, {
+        ...init,
+        signal: controller.signal,
+        ...(isStreamBody(init.body) && { duplex: 'half' }),
+        ...(connection.dispatcher !== undefined && { dispatcher: connection.dispatcher }),
+        ...(this.connectionOptions?.agent !== undefined && { agent: this.connectionOptions.agent }),
+      } as RequestInit);
+    } catch (error) {
+      release();
+      throw toError(error);
     }
 
-    // Handle CSV response (for CSV output format)
-    const contentType = response.headers.get('content-type');
-    if (contentType && contentType.includes('text/csv')) {
-      const csvText = await response.text();
-      return {
-        success: true,
-        job_id: '',
-        result: csvText as any,
-        status: 'completed',
-      };
+    // Streamed results are read at the caller's pace, so their timeout ends with the headers
+    if (streamBody) {
+      clearTimeout(timer);
     }
-
-    // Parse JSON response
-    const result = await response.json() as PipelineResponse<T>;
-    
-    return result;
+    // The timeout and the caller's signal stay linked until the body has been read
+    return watchBody(response, release, toError);
   }
 
   /**
-   * Transform a raw API response using a mapping
-   * 
-   * @param options - Transform options (mappingId and rawResponse)
-   * @returns The transformed response
-   * 
-   * @example
-   * ```typescript
-   * const transformed = await vegap.transform({
-   *   mappingId: '507f1f77bcf86cd799439011',
-   *   rawResponse: {
-   *     id: 'cus_123',
-   *     name: 'John Doe',
-   *     email: 'john@example.com'
-   *   }
-   * });
-   * ```
+   * Get the idempotency key of a call: the given one (option or header), or a generated one
+   * if the caller asked for it ({ auto: true }) or the retry policy retries the call's mutating method
    */
-  async transform<T = any>(
-    options: TransformOptions
-  ): Promise<TransformResponse<T>> {
-    const { mappingId, rawResponse } = options;
-
-    if (!mappingId) {
-      throw new Error('mappingId is required');
+  private idempotencyKeyFor(
+    method: string,
+    options: Pick<ProxyOptions, 'idempotencyKey' | 'headers' | 'retry'>
+  ): string | undefined {
+    const { idempotencyKey } = options;
+    if (typeof idempotencyKey === 'string') {
+      return idempotencyKey;
     }
 
-    if (!rawResponse) {
-      throw new Error('rawResponse is required');
+    const header = options.headers ? new Headers(options.headers).get('idempotency-key') : null;
+    if (header) {
+      return header;
+    }
+    if (idempotencyKey?.auto) {
+      return crypto.randomUUID();
     }
 
-    // Build URL
-    const url = `${this.baseUrl}/api/transform`;
-
-    // Prepare request body
-    const requestBody = {
-      mapping_id: mappingId,
-      raw_response: rawResponse,
-    };
-
-    // Make request
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'X-API-Key': this.apiKey,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    });
+    // POST or PATCH listed in idempotentMethods is retried anyway, so a retry must not run it twice
+    const policy = resolveRetryOptions(this.retry, options.retry);
+    const upperMethod = method.toUpperCase();
+    return policy && NON_IDEMPOTENT_METHODS.includes(upperMethod) && policy.idempotentMethods.includes(upperMethod)
+      ? crypto.randomUUID()
+      : undefined;
+  }
 
-    // Handle errors
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ 
-        error: `HTTP ${response.status}: ${response.statusText}` 
-      })) as VegapError;
-      throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+  /**
+   * Resolve the connection settings into a dispatcher (once)
+   */
+  private getConnection(): Promise<Connection> {
+    if (!this.connection) {
+      this.connection = createConnection(this.connectionOptions);
     }
-
-    // Parse response
-    const data = await response.json() as TransformResponse<T>;
-    
-    return data;
+    return this.connection;
   }
 
   /**
-   * Get company ID from API key (cached)
-   * This is done by making a test request to get the company ID
+   * Get company ID from the config, or infer it from the API key (cached)
    */
   private async getCompanyId(): Promise<string> {
     if (this.companyId) {
       return this.companyId;
     }
 
-    // Try to get company ID from endpoints endpoint
-    // This requires a valid API key and will return the company ID implicitly
-    // We'll use a simple approach: make a request to get endpoints and extract company ID
-    // Actually, we can't easily get company ID from the API without making assumptions
-    // So we'll require it to be set or throw an error
-    
-    // For now, we'll throw an error if company ID is not provided
-    // In the future, we could add an endpoint to get company info from API key
-    throw new Error(
-      'Company ID is required. Please provide it in the config or use setCompanyId() method.'
-    );
+    const { company_id: companyId } = await this.whoami();
+    if (!companyId) {
+      throw new Error(
+        'Company ID could not be inferred from the API key. Please provide it in the config or use setCompanyId() method.'
+      );
+    }
+    return companyId;
+  }
+}
+
+/**
+ * Determine if the first proxy() parameter is a custom slug or options object
+ * and normalize the second parameter into ProxyOptions
+ */
+function normalizeProxyArgs<O extends ProxyOptions>(
+  identifier: string | ProxyOptionsInput | O,
+  options?: ProxyOptionsInput | O
+): { customSlug?: string; options: O } {
+  if (typeof identifier !== 'string') {
+    // First parameter is options object (must contain mappingId)
+    const normalizedOptions = identifier as O;
+    if (!normalizedOptions.mappingId) {
+      throw new Error('If first parameter is an options object, it must contain mappingId');
+    }
+    return { options: normalizedOptions };
+  }
+
+  // First parameter is a custom slug
+  // Normalize options - if it's a simple object without method/body/query/path/headers,
+  // treat it as query params for GET requests
+  if (!options) {
+    return { customSlug: identifier, options: { method: 'GET' } as O };
+  }
+  const isOptions = PROXY_OPTION_KEYS.some(key => key in options)
+    || Object.entries(TYPED_PROXY_OPTION_KEYS).some(([key, matches]) => key in options && matches((options as Record<string, unknown>)[key]));
+  if (isOptions) {
+    // It's already a ProxyOptions object
+    return { customSlug: identifier, options: options as O };
+  }
+  // It's a simple object - treat as query params for GET
+  return {
+    customSlug: identifier,
+    options: {
+      query: options as QueryParams,
+      method: 'GET',
+    } as O,
+  };
+}
+
+/**
+ * Determine if the first pipeline() parameter is a custom slug or options object
+ */
+function normalizePipelineArgs(
+  identifier: string | PipelineOptions,
+  options?: PipelineOptions
+): { customSlug?: string; options: PipelineOptions } {
+  if (typeof identifier === 'string') {
+    // First parameter is a custom slug
+    return { customSlug: identifier, options: options || {} };
+  }
+
+  // First parameter is options object (must contain pipelineId)
+  if (!identifier.pipelineId) {
+    throw new Error('If first parameter is an options object, it must contain pipelineId, or use custom slug as first parameter');
+  }
+  return { options: identifier };
+}
+
+/**
+ * Read proxy execution metadata from the X-Vegap-* response headers and
+ * the `_vegap` object the API may add to object responses (which is removed from the data)
+ * Header values take precedence over body values.
+ */
+function extractProxyMeta(
+  body: unknown,
+  headers: Headers,
+  idempotencyKey?: string
+): { data: unknown; meta?: ProxyResponseMeta } {
+  let data = body;
+  let bodyMeta: ProxyResponseMeta = {};
+
+  if (body && typeof body === 'object' && !Array.isArray(body) && '_vegap' in body) {
+    const { _vegap, ...rest } = body as { _vegap?: ProxyResponseMeta };
+    bodyMeta = _vegap || {};
+    data = rest;
+  }
+
+  const headerNumber = (name: string): number | undefined => {
+    const value = headers.get(name);
+    return value !== null && value !== '' && !Number.isNaN(Number(value)) ? Number(value) : undefined;
+  };
+  const headerMeta: ProxyResponseMeta = {
+    mapping_id: headers.get('x-vegap-mapping-id') ?? undefined,
+    mapping_name: headers.get('x-vegap-mapping-name') ?? undefined,
+    execution_time_ms: headerNumber('x-vegap-execution-time-ms'),
+    tokens_used: headerNumber('x-vegap-tokens-used'),
+    ai_cost_usd: headerNumber('x-vegap-ai-cost-usd'),
+    idempotency_key: idempotencyKey,
+    idempotent_replayed: isIdempotentReplay(headers) || undefined,
+  };
+
+  const meta: ProxyResponseMeta = { ...bodyMeta };
+  (Object.keys(headerMeta) as Array<keyof ProxyResponseMeta>).forEach(key => {
+    if (headerMeta[key] !== undefined) {
+      (meta as Record<string, unknown>)[key] = headerMeta[key];
+    }
+  });
+
+  return {
+    data,
+    meta: Object.keys(meta).length > 0 ? meta : undefined,
+  };
+}
+
+/**
+ * Check whether a transform response body reports success (only those are cached)
+ */
+function isSuccessfulTransform(body: string): boolean {
+  try {
+    return JSON.parse(body).success === true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Call `done` once the response body has been read, cancelled or failed
+ * Read errors are converted with `toError` (e.g. into a VegapTimeoutError).
+ */
+function watchBody(response: Response, done: () => void, toError: (error: unknown) => Error): Response {
+  // Responses that cannot have a body (204, 304, ...) are returned as they are
+  if (!response.body || [101, 204, 205, 304].includes(response.status)) {
+    done();
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done: finished, value } = await reader.read();
+        if (finished) {
+          done();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        const converted = toError(error);
+        done();
+        controller.error(converted);
+      }
+    },
+    cancel(reason) {
+      done();
+      return reader.cancel(reason);
+    },
+  });
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/**
+ * Set the Idempotency-Key header, replacing one given in any other spelling
+ */
+function withIdempotencyKey(headers: Record<string, string>, key: string | undefined): Record<string, string> {
+  if (!key) {
+    return headers;
+  }
+  const others = Object.entries(headers).filter(([name]) => name.toLowerCase() !== 'idempotency-key');
+  return { ...Object.fromEntries(others), 'Idempotency-Key': key };
+}
+
+/**
+ * Check whether the API answered with the stored response of an earlier call (Idempotent-Replayed header)
+ */
+function isIdempotentReplay(headers: Headers): boolean {
+  return headers.get('idempotent-replayed')?.toLowerCase() === 'true';
+}
+
+/**
+ * Check whether the request headers carry an Idempotency-Key
+ */
+function hasIdempotencyKey(headers: RequestInit['headers']): boolean {
+  if (!headers) {
+    return false;
   }
+  return new Headers(headers).has('idempotency-key');
 }
 
 // Global instance (will be initialized by init() or createInstance())
@@ -494,6 +1568,9 @@ function getInstance(): Vegap {
  * ```
  */
 export const vegap = {
+  // proxy(), pipeline() and pipelineStream() are typed through the class, so declaration
+  // files keep their slug map lookups instead of resolving them against the empty maps
+
   /**
    * Proxy a request through Vegap
    * Automatically handles mapping and transformation
@@ -510,22 +1587,54 @@ export const vegap = {
    * });
    * ```
    */
-  proxy<T = any>(
-    identifier: string | ProxyOptionsInput,
-    options?: ProxyOptionsInput
-  ): Promise<ProxyResponse<T>> {
-    return getInstance().proxy(identifier, options);
-  },
+  proxy: ((identifier, options) => getInstance().proxy(identifier, options)) as Vegap['proxy'],
 
   /**
    * Transform a raw API response using a mapping
    */
   transform<T = any>(
-    options: TransformOptions
+    options: TransformOptions<T>
   ): Promise<TransformResponse<T>> {
     return getInstance().transform(options);
   },
 
+  /**
+   * Transform many raw API responses with the same mapping
+   */
+  transformBatch<T = any>(
+    options: TransformBatchOptions<T>
+  ): Promise<TransformBatchResponse<T>> {
+    return getInstance().transformBatch(options);
+  },
+
+  /**
+   * Add middleware that wraps every request attempt
+   */
+  use(middleware: VegapMiddleware): Vegap {
+    return getInstance().use(middleware);
+  },
+
+  /**
+   * Register a schema for a custom slug or mapping ID
+   */
+  registerSchema(slugOrMappingId: string, schema: VegapSchema): void {
+    getInstance().registerSchema(slugOrMappingId, schema);
+  },
+
+  /**
+   * Remove cached responses for a custom slug or mapping ID, or all cached responses
+   */
+  invalidateCache(slugOrMappingId?: string): Promise<void> {
+    return getInstance().invalidateCache(slugOrMappingId);
+  },
+
+  /**
+   * Get the statistics of the rate limiters
+   */
+  getRateLimitStats(): RateLimitStats | undefined {
+    return getInstance().getRateLimitStats();
+  },
+
   /**
    * Execute a processing pipeline with file or data
    * 
@@ -548,17 +1657,127 @@ export const vegap = {
    * });
    * ```
    */
-  pipeline<T = any>(
-    identifier: string | PipelineOptions,
-    options?: PipelineOptions
-  ): Promise<PipelineResponse<T>> {
-    return getInstance().pipeline(identifier, options);
+  pipeline: ((identifier, options) => getInstance().pipeline(identifier, options)) as Vegap['pipeline'],
+
+  /**
+   * Execute a processing pipeline and stream its result instead of buffering it
+   * 
+   * @example
+   * ```typescript
+   * const result = await vegap.pipelineStream('export-processor', { file: '/data/export.csv' });
+   * for await (const row of result.rows()) {
+   *   console.log(row);
+   * }
+   * ```
+   */
+  pipelineStream: ((identifier, options) => getInstance().pipelineStream(identifier, options)) as Vegap['pipelineStream'],
+
+  /**
+   * Get the company and scopes of the configured API key (cached)
+   */
+  whoami(): Promise<WhoAmIResponse> {
+    return getInstance().whoami();
+  },
+
+  /**
+   * Iterate over all pages of a proxied list endpoint
+   * 
+   * @example
+   * ```typescript
+   * for await (const customer of vegap.paginate('stripe-customers', {
+   *   pagination: { strategy: 'cursor', cursorParam: 'starting_after', cursorFromItem: 'id', hasMorePath: 'has_more' },
+   * })) {
+   *   console.log(customer);
+   * }
+   * ```
+   */
+  paginate<T = any>(
+    identifier: string | PaginateOptions,
+    options?: PaginateOptions
+  ): Paginator<T> {
+    return getInstance().paginate<T>(identifier, options);
+  },
+
+  /**
+   * Pipeline job tracking (get, wait, cancel, list)
+   * 
+   * @example
+   * ```typescript
+   * const { job_id } = await vegap.pipeline('invoice-processor', { file });
+   * const job = await vegap.jobs.wait(job_id, { pollInterval: 1000 });
+   * ```
+   */
+  get jobs(): Jobs {
+    return getInstance().jobs;
+  },
+
+  /**
+   * Mapping management (CRUD, versions, test runs)
+   */
+  get mappings(): Mappings {
+    return getInstance().mappings;
+  },
+
+  /**
+   * Endpoint (custom slug) management (CRUD, versions, test runs)
+   */
+  get endpoints(): Endpoints {
+    return getInstance().endpoints;
+  },
+
+  /**
+   * Pipeline definition management (CRUD, versions, test runs)
+   */
+  get pipelines(): Pipelines {
+    return getInstance().pipelines;
   },
 };
 
 // Default export
 export default Vegap;
 
+export { Jobs, isTerminalJobStatus } from './jobs.js';
+export { Mappings } from './mappings.js';
+export { Endpoints } from './endpoints.js';
+export { Pipelines } from './pipelines.js';
+export { Paginator } from './pagination.js';
+export { PipelineResultStream } from './streaming.js';
+export { parseCsv } from './csv.js';
+export { VegapPool } from './pool.js';
+export { staticCredentials, envCredentials, fileCredentials, oauthClientCredentials } from './credentials.js';
+export type { EnvCredentialsOptions, OAuthClientCredentialsOptions } from './credentials.js';
+export { MemoryCacheStore, RedisCacheStore } from './cache.js';
+export type { RedisLikeClient } from './cache.js';
+export { generateTypes, fetchDefinitions, jsonSchemaToType } from './codegen.js';
+export type { CodegenDefinitions, GenerateTypesOptions } from './codegen.js';
+export { loggingMiddleware, headersMiddleware } from './middleware.js';
+export type { MiddlewareLogger, LoggingMiddlewareOptions } from './middleware.js';
+export {
+  verifyWebhook,
+  signWebhookPayload,
+  verifyNodeWebhook,
+  verifyWebRequestWebhook,
+  webhookHandler,
+  WEBHOOK_SIGNATURE_HEADER,
+} from './webhooks.js';
+
+// Export errors
+export {
+  VegapApiError,
+  VegapAuthenticationError,
+  VegapNotFoundError,
+  VegapRateLimitError,
+  VegapInvalidRequestError,
+  VegapServerError,
+  VegapNetworkError,
+  VegapTimeoutError,
+  VegapAbortError,
+  VegapQueueFullError,
+  VegapWebhookVerificationError,
+  VegapValidationError,
+} from './errors.js';
+export type { VegapErrorContext, VegapApiErrorOptions } from './errors.js';
+
 // Export types
 export type {
   VegapConfig,
@@ -570,5 +1789,96 @@ export type {
   PipelineOptions,
   PipelineResponse,
   VegapError,
+  RetryOptions,
+  RetryAttemptInfo,
+  PipelineJob,
+  PipelineJobStatus,
+  PipelineJobList,
+  WaitForJobOptions,
+  ListJobsOptions,
+  WhoAmIResponse,
+  PaginateOptions,
+  PaginationOptions,
+  PaginationStrategy,
+  Page,
+  VegapSchema,
+  ValidationMode,
+  SchemaIssue,
+  SchemaResult,
+  SchemaValidator,
+  StandardSchemaV1,
+  InferSchemaOutput,
+  ProxyResponseMeta,
+  PipelineFileInput,
+  UploadProgress,
+  CsvParseOptions,
+  RequestContext,
+  VegapMiddleware,
+  FetchLike,
+  ConnectionOptions,
+  CacheOptions,
+  CacheStore,
+  CachedResponse,
+  RequestCacheOptions,
+  CacheStatus,
+  TransformBatchOptions,
+  TransformBatchProgress,
+  TransformBatchItemResult,
+  TransformBatchResponse,
+  RequestPriority,
+  RateLimitOptions,
+  RateLimitConfig,
+  RateLimiterStats,
+  RateLimitStats,
+  QueryValue,
+  QueryParams,
+  QueryArrayFormat,
+  QuerySerializer,
+  BodyType,
+  VegapCredential,
+  CredentialProvider,
+  TenantCredentials,
+  TenantCredentialsProvider,
+  VegapPoolConfig,
+  TelemetryAttributes,
+  TelemetrySpanContext,
+  TelemetrySpan,
+  TelemetryTracer,
+  TelemetryMeter,
+  TelemetryOptions,
+  ListResourcesOptions,
+  ResourceList,
+  ResourceBase,
+  ResourceVersion,
+  WriteResourceOptions,
+  Mapping,
+  MappingInput,
+  Endpoint,
+  EndpointInput,
+  PipelineStep,
+  Pipeline,
+  PipelineInput,
+  TestEndpointOptions,
+  EndpointTestResult,
+  TestMappingOptions,
+  TestPipelineOptions,
+  VegapSlugMap,
+  VegapPipelineMap,
+  ProxySlug,
+  PipelineSlug,
+  SlugResponse,
+  SlugProxyOptionsInput,
+  PipelineSlugResult,
+  PipelineSlugOptions,
 };
+export type {
+  WebhookEvent,
+  WebhookEventBase,
+  PipelineWebhookData,
+  PipelineCompletedEvent,
+  PipelineFailedEvent,
+  PipelineCancelledEvent,
+  WebhookHeaders,
+  VerifyWebhookOptions,
+} from './types.js';
 
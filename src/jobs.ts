@@ -0,0 +1,128 @@
+import type {
+  PipelineJob,
+  PipelineJobList,
+  PipelineJobStatus,
+  ListJobsOptions,
+  WaitForJobOptions,
+} from './types.js';
+import type { JsonRequest } from './request.js';
+import { VegapAbortError, VegapTimeoutError } from './errors.js';
+import { sleep } from './retry.js';
+
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+const DEFAULT_WAIT_TIMEOUT_MS = 300000;
+
+/**
+ * Statuses after which a job no longer changes
+ */
+export const TERMINAL_JOB_STATUSES: readonly PipelineJobStatus[] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Check whether a job has finished (successfully or not)
+ */
+export function isTerminalJobStatus(status: PipelineJobStatus): boolean {
+  return TERMINAL_JOB_STATUSES.includes(status);
+}
+
+/**
+ * Pipeline job tracking
+ * Available as `vegap.jobs`
+ *
+ * @example
+ * ```typescript
+ * const { job_id } = await vegap.pipeline('invoice-processor', { file });
+ *
+ * const job = await vegap.jobs.wait(job_id, {
+ *   pollInterval: 1000,
+ *   onProgress: job => console.log(job.status, job.progress),
+ * });
+ *
+ * if (job.status === 'completed') {
+ *   console.log(job.result);
+ * }
+ * ```
+ */
+export class Jobs {
+  constructor(private readonly request: JsonRequest) {}
+
+  /**
+   * Get the current state of a job
+   */
+  async get<T = any>(jobId: string, options: { signal?: AbortSignal } = {}): Promise<PipelineJob<T>> {
+    if (!jobId) {
+      throw new Error('jobId is required');
+    }
+
+    return this.request<PipelineJob<T>>('GET', `/api/pipelines/jobs/${encodeURIComponent(jobId)}`, {
+      signal: options.signal,
+      operation: 'jobs.get',
+    });
+  }
+
+  /**
+   * Poll a job until it is completed, failed or cancelled
+   * Resolves with the final job; throws a VegapTimeoutError if the job did not finish in time.
+   */
+  async wait<T = any>(jobId: string, options: WaitForJobOptions<T> = {}): Promise<PipelineJob<T>> {
+    const {
+      pollInterval = DEFAULT_POLL_INTERVAL_MS,
+      timeout = DEFAULT_WAIT_TIMEOUT_MS,
+      onProgress,
+      signal,
+    } = options;
+    const deadline = timeout > 0 ? Date.now() + timeout : Infinity;
+
+    for (;;) {
+      const job = await this.get<T>(jobId, { signal });
+      onProgress?.(job);
+
+      if (isTerminalJobStatus(job.status)) {
+        return job;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new VegapTimeoutError(
+          `Job ${jobId} did not finish within ${timeout}ms (last status: ${job.status})`,
+          { timeoutMs: timeout }
+        );
+      }
+
+      await sleep(Math.min(pollInterval, remaining), signal).catch(reason => {
+        throw new VegapAbortError(`Waiting for job ${jobId} was aborted`, { cause: reason });
+      });
+    }
+  }
+
+  /**
+   * Cancel a queued or processing job
+   */
+  async cancel<T = any>(jobId: string, options: { signal?: AbortSignal } = {}): Promise<PipelineJob<T>> {
+    if (!jobId) {
+      throw new Error('jobId is required');
+    }
+
+    return this.request<PipelineJob<T>>('POST', `/api/pipelines/jobs/${encodeURIComponent(jobId)}/cancel`, {
+      signal: options.signal,
+      operation: 'jobs.cancel',
+    });
+  }
+
+  /**
+   * List jobs, optionally filtered by pipeline and status
+   */
+  async list<T = any>(options: ListJobsOptions = {}): Promise<PipelineJobList<T>> {
+    const { pipelineId, status, limit, cursor, signal } = options;
+
+    return this.request<PipelineJobList<T>>('GET', '/api/pipelines/jobs', {
+      query: {
+        pipeline_id: pipelineId,
+        status: Array.isArray(status) ? status.join(',') : status,
+        limit,
+        cursor,
+      },
+      signal,
+      operation: 'jobs.list',
+    });
+  }
+}
@@ -0,0 +1,41 @@
+import type {
+  Mapping,
+  MappingInput,
+  TestMappingOptions,
+  TransformResponse,
+} from './types.js';
+import type { JsonRequest } from './request.js';
+import { ResourceClient } from './resources.js';
+
+/**
+ * Mapping management (CRUD, versions, test runs)
+ * Available as `vegap.mappings`
+ *
+ * @example
+ * ```typescript
+ * const mapping = await vegap.mappings.create({
+ *   name: 'Stripe customers',
+ *   config: { fields: { id: 'id', email: 'email' } },
+ * });
+ *
+ * const result = await vegap.mappings.test(mapping.id, { rawResponse: sampleCustomer });
+ * ```
+ */
+export class Mappings extends ResourceClient<Mapping, MappingInput> {
+  constructor(request: JsonRequest) {
+    super(request, '/api/mappings', 'mappings');
+  }
+
+  /**
+   * Transform a raw response with a mapping (or unsaved overrides of it) without saving anything
+   */
+  async test<T = any>(id: string, options: TestMappingOptions): Promise<TransformResponse<T>> {
+    const { rawResponse, overrides, signal } = options;
+
+    return this.request<TransformResponse<T>>('POST', this.path(id, 'test'), {
+      body: { raw_response: rawResponse, overrides },
+      signal,
+      operation: 'mappings.test',
+    });
+  }
+}
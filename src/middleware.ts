@@ -0,0 +1,110 @@
+import type { RequestContext, VegapMiddleware } from './types.js';
+
+/**
+ * Run a request through a middleware chain
+ * The first middleware is the outermost one; `terminal` performs the actual request.
+ */
+export function runMiddleware(
+  middleware: readonly VegapMiddleware[],
+  ctx: RequestContext,
+  terminal: () => Promise<Response>
+): Promise<Response> {
+  const dispatch = (index: number): Promise<Response> => {
+    if (index >= middleware.length) {
+      return terminal();
+    }
+
+    let called = false;
+    return middleware[index](ctx, () => {
+      if (called) {
+        return Promise.reject(new Error('next() called multiple times in the same middleware'));
+      }
+      called = true;
+      return dispatch(index + 1);
+    });
+  };
+
+  return dispatch(0);
+}
+
+/**
+ * Minimal logger interface (compatible with console, pino, winston, ...)
+ */
+export interface MiddlewareLogger {
+  info(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+}
+
+/**
+ * Options for the logging middleware
+ */
+export interface LoggingMiddlewareOptions {
+  /**
+   * Where to write log lines
+   * @default console
+   */
+  logger?: MiddlewareLogger;
+
+  /**
+   * Also log when a request starts (not only when it finishes)
+   * @default false
+   */
+  logStart?: boolean;
+}
+
+/**
+ * Middleware that logs every request attempt with its status and duration
+ * Only the method, URL and status are logged, never headers or bodies (so the API key stays out of logs).
+ *
+ * @example
+ * ```typescript
+ * vegap.use(loggingMiddleware({ logger: pino() }));
+ * // [vegap] proxy GET https://api.vegap.de/api/proxy/custom/.../stripe-customers -> 200 (132ms)
+ * ```
+ */
+export function loggingMiddleware(options: LoggingMiddlewareOptions = {}): VegapMiddleware {
+  const { logger = console, logStart = false } = options;
+
+  return async (ctx, next) => {
+    const method = (ctx.init.method || 'GET').toUpperCase();
+    const label = `[vegap] ${ctx.operation} ${method} ${ctx.url}${ctx.attempt > 1 ? ` (attempt ${ctx.attempt})` : ''}`;
+    const startedAt = Date.now();
+
+    if (logStart) {
+      logger.info(`${label} ...`);
+    }
+
+    try {
+      const response = await next();
+      logger.info(`${label} -> ${response.status} (${Date.now() - startedAt}ms)`);
+      return response;
+    } catch (error) {
+      logger.error(
+        `${label} -> ${error instanceof Error ? error.message : String(error)} (${Date.now() - startedAt}ms)`
+      );
+      throw error;
+    }
+  };
+}
+
+/**
+ * Middleware that adds headers to every request
+ * Accepts fixed headers or a function computing them per request (e.g. for tracing IDs).
+ *
+ * @example
+ * ```typescript
+ * vegap.use(headersMiddleware({ 'X-Service': 'billing' }));
+ * vegap.use(headersMiddleware(ctx => ({ 'X-Correlation-Id': getCorrelationId() })));
+ * ```
+ */
+export function headersMiddleware(
+  headers: Record<string, string> | ((ctx: RequestContext) => Record<string, string> | Promise<Record<string, string>>)
+): VegapMiddleware {
+  return async (ctx, next) => {
+    const extra = typeof headers === 'function' ? await headers(ctx) : headers;
+    const merged = new Headers(ctx.init.headers);
+    Object.entries(extra).forEach(([name, value]) => merged.set(name, value));
+    ctx.init = { ...ctx.init, headers: merged };
+    return next();
+  };
+}
@@ -0,0 +1,237 @@
+import type { Page, PaginationOptions, QueryParams } from './types.js';
+
+type Query = QueryParams;
+
+/**
+ * Fetches a single page for the given query (internal)
+ */
+export type PageFetcher = (query: Query) => Promise<{ data: any; headers: Headers }>;
+
+const DEFAULT_MAX_PAGES = 100;
+const DEFAULT_ITEM_KEYS = ['data', 'items', 'results'];
+
+/**
+ * Async iterator over a paginated list endpoint
+ * Iterating the paginator yields items; use `pages()` to iterate whole pages.
+ *
+ * @example
+ * ```typescript
+ * const paginator = vegap.paginate('stripe-customers', { pagination: { strategy: 'offset' } });
+ *
+ * for await (const customer of paginator) {
+ *   console.log(customer);
+ * }
+ *
+ * const all = await paginator.toArray();
+ * ```
+ */
+export class Paginator<T = any> implements AsyncIterable<T> {
+  constructor(
+    private readonly fetchPage: PageFetcher,
+    private readonly options: PaginationOptions,
+    private readonly initialQuery: Query = {}
+  ) {}
+
+  /**
+   * Iterate over all pages
+   */
+  async *pages(): AsyncGenerator<Page<T>, void, undefined> {
+    const {
+      strategy,
+      pageSize,
+      limitParam = 'limit',
+      pageParam = 'page',
+      startPage = 1,
+      maxPages = DEFAULT_MAX_PAGES,
+      maxItems,
+    } = this.options;
+
+    let query: Query = { ...this.initialQuery };
+    if (pageSize !== undefined) {
+      query[limitParam] = pageSize;
+    }
+    if (strategy === 'page' && query[pageParam] === undefined) {
+      query[pageParam] = startPage;
+    }
+
+    const seenCursors = new Set<string>();
+    let itemCount = 0;
+
+    for (let pageNumber = 1; pageNumber <= maxPages; pageNumber++) {
+      const { data, headers } = await this.fetchPage(query);
+      let items = this.extractItems(data);
+
+      if (maxItems !== undefined && itemCount + items.length > maxItems) {
+        items = items.slice(0, maxItems - itemCount);
+      }
+      itemCount += items.length;
+
+      yield { items, data, pageNumber, headers };
+
+      if (items.length === 0 || (maxItems !== undefined && itemCount >= maxItems)) {
+        return;
+      }
+
+      const next = this.nextQuery(query, data, headers, items, itemCount);
+      if (!next) {
+        return;
+      }
+
+      // Guard against APIs that keep returning the same cursor
+      const key = JSON.stringify(next);
+      if (seenCursors.has(key)) {
+        return;
+      }
+      seenCursors.add(key);
+
+      query = next;
+    }
+  }
+
+  /**
+   * Iterate over all items of all pages
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    for await (const page of this.pages()) {
+      yield* page.items;
+    }
+  }
+
+  /**
+   * Collect all items into an array
+   * Respects maxPages and maxItems.
+   */
+  async toArray(): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this) {
+      items.push(item);
+    }
+    return items;
+  }
+
+  /**
+   * Compute the query for the next page, or null if this was the last page
+   */
+  private nextQuery(query: Query, data: any, headers: Headers, items: T[], itemCount: number): Query | null {
+    const {
+      strategy,
+      pageSize,
+      hasMorePath,
+      totalPath,
+      cursorParam = 'cursor',
+      nextCursorPath = 'next_cursor',
+      cursorFromItem,
+      offsetParam = 'offset',
+      pageParam = 'page',
+    } = this.options;
+
+    if (hasMorePath && !getPath(data, hasMorePath)) {
+      return null;
+    }
+    if (!hasMorePath && pageSize !== undefined && items.length < pageSize && strategy !== 'link') {
+      return null;
+    }
+
+    switch (strategy) {
+      case 'cursor': {
+        const cursor = cursorFromItem
+          ? getPath(items[items.length - 1], cursorFromItem)
+          : getPath(data, nextCursorPath);
+        if (cursor === undefined || cursor === null || cursor === '') {
+          return null;
+        }
+        return { ...query, [cursorParam]: String(cursor) };
+      }
+
+      case 'offset': {
+        const offset = Number(query[offsetParam] ?? 0) + items.length;
+        const total = totalPath ? Number(getPath(data, totalPath)) : NaN;
+        if (!Number.isNaN(total) && offset >= total) {
+          return null;
+        }
+        return { ...query, [offsetParam]: offset };
+      }
+
+      case 'page': {
+        const total = totalPath ? Number(getPath(data, totalPath)) : NaN;
+        if (!Number.isNaN(total) && itemCount >= total) {
+          return null;
+        }
+        return { ...query, [pageParam]: Number(query[pageParam]) + 1 };
+      }
+
+      case 'link': {
+        const nextUrl = parseLinkHeader(headers.get('link'))['next'];
+        if (!nextUrl) {
+          return null;
+        }
+        // Keep the proxy path and only carry over the query of the upstream's next link
+        const next: Query = { ...query };
+        new URL(nextUrl, 'http://localhost').searchParams.forEach((value, key) => {
+          next[key] = value;
+        });
+        return next;
+      }
+
+      default:
+        throw new Error(`Unknown pagination strategy: ${strategy as string}`);
+    }
+  }
+
+  /**
+   * Find the items array in a page's response data
+   */
+  private extractItems(data: any): T[] {
+    if (this.options.itemsPath) {
+      const items = getPath(data, this.options.itemsPath);
+      if (!Array.isArray(items)) {
+        throw new Error(`Expected an array at "${this.options.itemsPath}" in the paginated response`);
+      }
+      return items;
+    }
+
+    if (Array.isArray(data)) {
+      return data;
+    }
+
+    for (const key of DEFAULT_ITEM_KEYS) {
+      if (data && Array.isArray(data[key])) {
+        return data[key];
+      }
+    }
+
+    throw new Error('Could not find the items array in the paginated response. Set pagination.itemsPath.');
+  }
+}
+
+/**
+ * Read a value from an object by dot path (e.g. "meta.next_cursor")
+ */
+function getPath(value: any, path: string): any {
+  return path.split('.').reduce((current, key) => (current == null ? undefined : current[key]), value);
+}
+
+/**
+ * Parse an RFC 8288 Link header into a map of rel to URL
+ */
+export function parseLinkHeader(header: string | null): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!header) {
+    return links;
+  }
+
+  for (const part of header.split(',')) {
+    const match = part.match(/<([^>]*)>\s*;(.*)/);
+    if (!match) {
+      continue;
+    }
+    const relMatch = match[2].match(/rel="?([^";]+)"?/);
+    if (relMatch) {
+      for (const rel of relMatch[1].trim().split(/\s+/)) {
+        links[rel] = match[1];
+      }
+    }
+  }
+
+  return links;
+}
@@ -0,0 +1,38 @@
+import type {
+  Pipeline,
+  PipelineInput,
+  PipelineResponse,
+  TestPipelineOptions,
+} from './types.js';
+import type { JsonRequest } from './request.js';
+import { ResourceClient } from './resources.js';
+
+/**
+ * Pipeline definition management (CRUD, versions, test runs)
+ * Available as `vegap.pipelines`; use `vegap.pipeline()` to execute pipelines.
+ *
+ * @example
+ * ```typescript
+ * const pipeline = await vegap.pipelines.update(pipelineId, {
+ *   steps: [{ type: 'ocr' }, { type: 'extract', config: { schema: invoiceSchema } }],
+ * }, { message: 'Add OCR step' });
+ * ```
+ */
+export class Pipelines extends ResourceClient<Pipeline, PipelineInput> {
+  constructor(request: JsonRequest) {
+    super(request, '/api/pipelines', 'pipelines');
+  }
+
+  /**
+   * Run a pipeline (or unsaved overrides of it) on JSON data without creating a job
+   */
+  async test<T = any>(id: string, options: TestPipelineOptions): Promise<PipelineResponse<T>> {
+    const { data, overrides, signal } = options;
+
+    return this.request<PipelineResponse<T>>('POST', this.path(id, 'test'), {
+      body: { data, overrides },
+      signal,
+      operation: 'pipelines.test',
+    });
+  }
+}
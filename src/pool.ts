@@ -0,0 +1,134 @@
+import type { RateLimitStats, TenantCredentials, VegapPoolConfig } from './types.js';
+import { Vegap } from './index.js';
+import { createConnection } from './connection.js';
+import type { Connection } from './connection.js';
+import { ResponseCache } from './cache.js';
+import { RequestLimiter } from './ratelimit.js';
+import { Telemetry } from './telemetry.js';
+
+/**
+ * Infrastructure shared by the clients of a pool (internal)
+ */
+export interface SharedResources {
+  connection: () => Promise<Connection>;
+  cache?: ResponseCache;
+  limiter?: RequestLimiter;
+  telemetry?: Telemetry;
+}
+
+/**
+ * Clients for many companies (tenants), each with its own credentials
+ * The clients share one connection, response cache, rate limiter and telemetry setup.
+ * Cached responses stay separate per company, since the cache keys include the credential.
+ *
+ * @example
+ * ```typescript
+ * const pool = new VegapPool({
+ *   rateLimit: { requestsPerSecond: 50 },
+ *   credentials: async companyId => ({ apiKey: await secrets.get(`vegap/${companyId}`) }),
+ * });
+ *
+ * const client = await pool.forCompany(request.tenantId);
+ * const { data } = await client.proxy('stripe-customers', { id: 'cus_123' });
+ * ```
+ */
+export class VegapPool {
+  private readonly clients = new Map<string, Promise<{ client: Vegap; credentials: TenantCredentials }>>();
+  private readonly shared: SharedResources;
+  private connection?: Promise<Connection>;
+
+  constructor(private readonly config: VegapPoolConfig = {}) {
+    this.shared = {
+      connection: () => {
+        if (!this.connection) {
+          this.connection = createConnection(config.connection);
+        }
+        return this.connection;
+      },
+      cache: config.cache ? new ResponseCache(config.cache) : undefined,
+      limiter: config.rateLimit ? new RequestLimiter(config.rateLimit) : undefined,
+      telemetry: config.telemetry ? new Telemetry(config.telemetry) : undefined,
+    };
+  }
+
+  /**
+   * Companies that currently have a client
+   */
+  get companies(): string[] {
+    return [...this.clients.keys()];
+  }
+
+  /**
+   * Get the client of a company, creating it on first use
+   * Without credentials, they are looked up with the pool's credentials provider (once per company).
+   * Passing credentials that differ from the current ones replaces the client (e.g. after a key rotation).
+   */
+  async forCompany(companyId: string, credentials?: TenantCredentials): Promise<Vegap> {
+    if (!companyId) {
+      throw new Error('companyId is required');
+    }
+
+    // Concurrent calls for a new company share one credentials lookup
+    let entry = this.clients.get(companyId);
+    if (entry && credentials && !sameCredentials((await entry.catch(() => undefined))?.credentials, credentials)) {
+      entry = undefined;
+    }
+
+    if (!entry) {
+      const created = this.createClient(companyId, credentials);
+      this.clients.set(companyId, created);
+      // A failed lookup is not kept, so the next call tries again
+      created.catch(() => {
+        if (this.clients.get(companyId) === created) {
+          this.clients.delete(companyId);
+        }
+      });
+      entry = created;
+    }
+    return (await entry).client;
+  }
+
+  /**
+   * Remove the client of a company (its credentials are looked up again on next use)
+   */
+  remove(companyId: string): boolean {
+    return this.clients.delete(companyId);
+  }
+
+  /**
+   * Get the statistics of the shared rate limiters
+   * Returns undefined if rate limiting is not configured.
+   */
+  getRateLimitStats(): RateLimitStats | undefined {
+    return this.shared.limiter?.stats();
+  }
+
+  /**
+   * Remove cached responses for a custom slug or mapping ID (of all companies),
+   * or all cached responses if none is given
+   */
+  async invalidateCache(slugOrMappingId?: string): Promise<void> {
+    await this.shared.cache?.invalidate(slugOrMappingId);
+  }
+
+  private async createClient(
+    companyId: string,
+    credentials?: TenantCredentials
+  ): Promise<{ client: Vegap; credentials: TenantCredentials }> {
+    const { credentials: provider, ...config } = this.config;
+    const resolved = credentials || (provider ? await provider(companyId) : undefined);
+    if (!resolved) {
+      throw new Error(`No credentials for company ${companyId}. Pass them to forCompany() or configure a credentials provider.`);
+    }
+    if (!resolved.apiKey && !resolved.credentials) {
+      throw new Error(`No API key for company ${companyId}`);
+    }
+
+    const client = new Vegap({ ...config, apiKey: resolved.apiKey, credentials: resolved.credentials, companyId }, this.shared);
+    return { client, credentials: resolved };
+  }
+}
+
+function sameCredentials(current: TenantCredentials | undefined, next: TenantCredentials): boolean {
+  return current?.apiKey === next.apiKey && current?.credentials === next.credentials;
+}
@@ -0,0 +1,263 @@
+import type {
+  RateLimitConfig,
+  RateLimitOptions,
+  RateLimiterStats,
+  RateLimitStats,
+  RequestContext,
+  RequestPriority,
+} from './types.js';
+import { VegapAbortError, VegapQueueFullError, parseRetryAfter } from './errors.js';
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = { high: 2, normal: 1, low: 0 };
+
+/**
+ * Releases a slot taken from a limiter (call once the request finished)
+ */
+export type ReleaseSlot = () => void;
+
+interface Waiter {
+  priority: RequestPriority;
+  enqueuedAt: number;
+  resolve: (release: ReleaseSlot) => void;
+  reject: (error: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Token bucket rate limiter with a concurrency limit and a priority queue (internal)
+ */
+export class RateLimiter {
+  private readonly rate: number;
+  private readonly burst: number;
+  private readonly maxConcurrent: number;
+  private readonly maxQueueSize: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private active = 0;
+  private queue: Waiter[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  private pausedUntil = 0;
+  private processed = 0;
+  private rejected = 0;
+  private totalWaitMs = 0;
+
+  constructor(private readonly name: string, options: RateLimitOptions = {}) {
+    this.rate = options.requestsPerSecond ?? Infinity;
+    this.burst = options.burst ?? (Number.isFinite(this.rate) ? Math.max(1, this.rate) : Infinity);
+    this.maxConcurrent = options.maxConcurrent ?? Infinity;
+    this.maxQueueSize = options.maxQueueSize ?? Infinity;
+    this.tokens = this.burst;
+  }
+
+  /**
+   * Wait for a slot
+   * Rejects with a VegapQueueFullError if the queue is full, or a VegapAbortError if the signal is aborted.
+   */
+  acquire(priority: RequestPriority = 'normal', signal?: AbortSignal): Promise<ReleaseSlot> {
+    if (signal?.aborted) {
+      return Promise.reject(new VegapAbortError('Request was aborted while waiting for the rate limiter', { cause: signal.reason }));
+    }
+    if (this.queue.length >= this.maxQueueSize) {
+      this.rejected++;
+      return Promise.reject(new VegapQueueFullError(this.name, this.maxQueueSize));
+    }
+
+    return new Promise<ReleaseSlot>((resolve, reject) => {
+      const waiter: Waiter = { priority, enqueuedAt: Date.now(), resolve, reject, signal };
+
+      if (signal) {
+        waiter.onAbort = () => {
+          this.queue = this.queue.filter(queued => queued !== waiter);
+          reject(new VegapAbortError('Request was aborted while waiting for the rate limiter', { cause: signal.reason }));
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+
+      // Insert behind all waiters of the same or a higher priority
+      const index = this.queue.findIndex(queued => PRIORITY_ORDER[queued.priority] < PRIORITY_ORDER[priority]);
+      if (index === -1) {
+        this.queue.push(waiter);
+      } else {
+        this.queue.splice(index, 0, waiter);
+      }
+
+      this.drain();
+    });
+  }
+
+  /**
+   * Stop letting requests through until the given time (epoch milliseconds)
+   */
+  pauseUntil(until: number): void {
+    if (until > this.pausedUntil) {
+      this.pausedUntil = until;
+      this.drain();
+    }
+  }
+
+  stats(): RateLimiterStats {
+    this.refill();
+    const queuedByPriority: Record<RequestPriority, number> = { high: 0, normal: 0, low: 0 };
+    this.queue.forEach(waiter => queuedByPriority[waiter.priority]++);
+
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      queuedByPriority,
+      processed: this.processed,
+      rejected: this.rejected,
+      averageWaitMs: this.processed > 0 ? this.totalWaitMs / this.processed : 0,
+      tokens: this.tokens,
+      ...(this.pausedUntil > Date.now() && { pausedUntil: this.pausedUntil }),
+    };
+  }
+
+  /**
+   * Let waiting requests through while there are free slots and tokens
+   */
+  private drain(): void {
+    while (this.queue.length > 0) {
+      if (this.active >= this.maxConcurrent) {
+        // release() drains again
+        return;
+      }
+
+      const now = Date.now();
+      if (this.pausedUntil > now) {
+        this.schedule(this.pausedUntil - now);
+        return;
+      }
+
+      this.refill();
+      if (this.tokens < 1) {
+        this.schedule(((1 - this.tokens) / this.rate) * 1000);
+        return;
+      }
+
+      const waiter = this.queue.shift()!;
+      if (waiter.onAbort) {
+        waiter.signal?.removeEventListener('abort', waiter.onAbort);
+      }
+      this.tokens--;
+      this.active++;
+      this.processed++;
+      this.totalWaitMs += now - waiter.enqueuedAt;
+
+      let released = false;
+      waiter.resolve(() => {
+        if (!released) {
+          released = true;
+          this.active--;
+          this.drain();
+        }
+      });
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    if (Number.isFinite(this.rate)) {
+      this.tokens = Math.min(this.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.rate);
+    }
+    this.lastRefill = now;
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, Math.max(0, Math.ceil(delayMs)));
+  }
+}
+
+/**
+ * The global, per-operation and per-slug limiters of a client (internal)
+ */
+export class RequestLimiter {
+  private readonly global: RateLimiter;
+  private readonly operations = new Map<string, RateLimiter>();
+  private readonly slugs = new Map<string, RateLimiter>();
+  private readonly adaptive: boolean;
+
+  constructor(config: RateLimitConfig) {
+    const { operations = {}, slugs = {}, adaptive = true, ...limits } = config;
+    this.global = new RateLimiter('global', limits);
+    this.adaptive = adaptive;
+    Object.entries(operations).forEach(([name, options]) => {
+      this.operations.set(name, new RateLimiter(`operation:${name}`, options));
+    });
+    Object.entries(slugs).forEach(([slug, options]) => {
+      this.slugs.set(slug.toLowerCase(), new RateLimiter(`slug:${slug.toLowerCase()}`, options));
+    });
+  }
+
+  /**
+   * Wait until every limiter that applies to the request lets it through
+   * The most specific limiter is acquired first, so a request never holds a
+   * global slot while it waits for its slug.
+   */
+  async acquire(
+    context: Pick<RequestContext, 'operation' | 'slug' | 'mappingId' | 'pipelineId'>,
+    priority?: RequestPriority,
+    signal?: AbortSignal
+  ): Promise<ReleaseSlot> {
+    const target = context.slug || context.mappingId || context.pipelineId;
+    const limiters = [
+      target ? this.slugs.get(target.toLowerCase()) : undefined,
+      this.operations.get(context.operation),
+      this.global,
+    ].filter((limiter): limiter is RateLimiter => limiter !== undefined);
+
+    const releases: ReleaseSlot[] = [];
+    const releaseAll = () => releases.forEach(release => release());
+    try {
+      for (const limiter of limiters) {
+        releases.push(await limiter.acquire(priority, signal));
+      }
+    } catch (error) {
+      releaseAll();
+      throw error;
+    }
+    return releaseAll;
+  }
+
+  /**
+   * Pause all requests when response headers report an exhausted rate limit
+   */
+  observe(status: number, headers: Headers): void {
+    if (!this.adaptive) {
+      return;
+    }
+
+    if (status === 429) {
+      const retryAfter = parseRetryAfter(headers.get('retry-after'));
+      if (retryAfter !== undefined) {
+        this.global.pauseUntil(Date.now() + retryAfter * 1000);
+        return;
+      }
+    }
+
+    if (headers.get('x-ratelimit-remaining') === '0') {
+      const reset = Number(headers.get('x-ratelimit-reset'));
+      if (headers.get('x-ratelimit-reset') && !Number.isNaN(reset)) {
+        // Either seconds until the reset or a Unix timestamp in seconds
+        this.global.pauseUntil(reset > 1e9 ? reset * 1000 : Date.now() + reset * 1000);
+      }
+    }
+  }
+
+  stats(): RateLimitStats {
+    const collect = (limiters: Map<string, RateLimiter>) =>
+      Object.fromEntries([...limiters].map(([name, limiter]) => [name, limiter.stats()]));
+
+    return {
+      global: this.global.stats(),
+      operations: collect(this.operations),
+      slugs: collect(this.slugs),
+    };
+  }
+}
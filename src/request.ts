@@ -0,0 +1,35 @@
+/**
+ * Options for a JSON request against the Vegap API (internal)
+ */
+export interface JsonRequestOptions {
+  /**
+   * Query parameters (undefined values are skipped)
+   */
+  query?: Record<string, string | number | boolean | undefined>;
+
+  /**
+   * Request body, serialized as JSON
+   */
+  body?: unknown;
+
+  /**
+   * Signal to cancel the request
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Operation name passed on to middleware (e.g. "jobs.get")
+   */
+  operation?: string;
+}
+
+/**
+ * Send a JSON request to a path below the API base URL and parse the JSON response (internal)
+ * Used by the resource namespaces (jobs, mappings, ...) so they share the client's
+ * authentication, retries and timeouts.
+ */
+export type JsonRequest = <T>(
+  method: string,
+  path: string,
+  options?: JsonRequestOptions
+) => Promise<T>;
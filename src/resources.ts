@@ -0,0 +1,132 @@
+import type {
+  ListResourcesOptions,
+  ResourceBase,
+  ResourceList,
+  ResourceVersion,
+  WriteResourceOptions,
+} from './types.js';
+import type { JsonRequest } from './request.js';
+
+/**
+ * CRUD and version history for a managed resource type (internal base of mappings, endpoints and pipelines)
+ */
+export abstract class ResourceClient<T extends ResourceBase, I> {
+  /**
+   * @param basePath - API path of the collection (e.g. "/api/mappings")
+   * @param name - Namespace for operation names passed to middleware (e.g. "mappings")
+   */
+  constructor(
+    protected readonly request: JsonRequest,
+    private readonly basePath: string,
+    protected readonly name: string
+  ) {}
+
+  /**
+   * List resources, optionally filtered by name
+   */
+  async list(options: ListResourcesOptions = {}): Promise<ResourceList<T>> {
+    const { search, limit, cursor, signal } = options;
+
+    return this.request<ResourceList<T>>('GET', this.basePath, {
+      query: { search, limit, cursor },
+      signal,
+      operation: `${this.name}.list`,
+    });
+  }
+
+  /**
+   * Get a resource by ID
+   */
+  async get(id: string, options: { signal?: AbortSignal } = {}): Promise<T> {
+    return this.request<T>('GET', this.path(id), {
+      signal: options.signal,
+      operation: `${this.name}.get`,
+    });
+  }
+
+  /**
+   * Create a resource (as version 1)
+   */
+  async create(input: I, options: WriteResourceOptions = {}): Promise<T> {
+    const { message, signal } = options;
+
+    return this.request<T>('POST', this.basePath, {
+      body: { ...input, message },
+      signal,
+      operation: `${this.name}.create`,
+    });
+  }
+
+  /**
+   * Update some fields of a resource (creates a new version)
+   * Pass `ifVersion` to fail with a 409 instead of overwriting a concurrent change.
+   */
+  async update(id: string, changes: Partial<I>, options: WriteResourceOptions = {}): Promise<T> {
+    const { message, ifVersion, signal } = options;
+
+    return this.request<T>('PATCH', this.path(id), {
+      body: { ...changes, message, if_version: ifVersion },
+      signal,
+      operation: `${this.name}.update`,
+    });
+  }
+
+  /**
+   * Delete a resource (including its version history)
+   */
+  async delete(id: string, options: { signal?: AbortSignal } = {}): Promise<void> {
+    await this.request<void>('DELETE', this.path(id), {
+      signal: options.signal,
+      operation: `${this.name}.delete`,
+    });
+  }
+
+  /**
+   * List the stored versions of a resource, newest first
+   */
+  async versions(
+    id: string,
+    options: Omit<ListResourcesOptions, 'search'> = {}
+  ): Promise<ResourceList<ResourceVersion<T>>> {
+    const { limit, cursor, signal } = options;
+
+    return this.request<ResourceList<ResourceVersion<T>>>('GET', this.path(id, 'versions'), {
+      query: { limit, cursor },
+      signal,
+      operation: `${this.name}.versions`,
+    });
+  }
+
+  /**
+   * Get a single stored version of a resource
+   */
+  async getVersion(id: string, version: number, options: { signal?: AbortSignal } = {}): Promise<ResourceVersion<T>> {
+    return this.request<ResourceVersion<T>>('GET', this.path(id, 'versions', String(version)), {
+      signal: options.signal,
+      operation: `${this.name}.getVersion`,
+    });
+  }
+
+  /**
+   * Roll a resource back to a stored version (creates a new version with its content)
+   */
+  async restoreVersion(id: string, version: number, options: WriteResourceOptions = {}): Promise<T> {
+    const { message, ifVersion, signal } = options;
+
+    return this.request<T>('POST', this.path(id, 'versions', String(version), 'restore'), {
+      body: { message, if_version: ifVersion },
+      signal,
+      operation: `${this.name}.restoreVersion`,
+    });
+  }
+
+  /**
+   * Build the path of a resource (or a sub-resource), encoding every segment
+   */
+  protected path(id: string, ...segments: string[]): string {
+    if (!id) {
+      throw new Error('id is required');
+    }
+    return [this.basePath, ...[id, ...segments].map(encodeURIComponent)].join('/');
+  }
+}
@@ -0,0 +1,130 @@
+import type { RetryOptions } from './types.js';
+import {
+  VegapApiError,
+  VegapNetworkError,
+  VegapRateLimitError,
+  parseRetryAfter,
+} from './errors.js';
+import { stripUndefined } from './utils.js';
+
+/**
+ * Retry policy with all defaults applied
+ */
+export type ResolvedRetryOptions = Required<Omit<RetryOptions, 'onRetry'>> &
+  Pick<RetryOptions, 'onRetry'>;
+
+export const DEFAULT_RETRY_OPTIONS: ResolvedRetryOptions = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 30000,
+  backoffMultiplier: 2,
+  jitter: true,
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+  retryOnNetworkError: true,
+  idempotentMethods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+  respectRetryAfter: true,
+  maxRetryAfterMs: 60000,
+};
+
+/**
+ * Merge retry policies, later sources taking precedence
+ * Returns null if any source disables retries (false)
+ */
+export function resolveRetryOptions(
+  ...sources: Array<RetryOptions | false | undefined>
+): ResolvedRetryOptions | null {
+  let resolved: ResolvedRetryOptions = { ...DEFAULT_RETRY_OPTIONS };
+
+  for (const source of sources) {
+    if (source === false) {
+      return null;
+    }
+    if (source) {
+      resolved = { ...resolved, ...stripUndefined(source) };
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Check whether a failed attempt may be retried under the given policy
+ *
+ * @param idempotent - Whether the request is safe to repeat (idempotent method or idempotency key)
+ */
+export function isRetryable(
+  policy: ResolvedRetryOptions,
+  error: unknown,
+  method: string,
+  idempotent: boolean
+): boolean {
+  if (!idempotent && !policy.idempotentMethods.includes(method.toUpperCase())) {
+    return false;
+  }
+
+  if (error instanceof VegapApiError) {
+    return policy.retryOnStatus.includes(error.status);
+  }
+
+  return error instanceof VegapNetworkError && policy.retryOnNetworkError;
+}
+
+/**
+ * Compute the delay before the next attempt
+ * Returns null if the server asked to wait longer than maxRetryAfterMs.
+ *
+ * @param attempt - The attempt that just failed (1-based)
+ */
+export function getRetryDelay(
+  policy: ResolvedRetryOptions,
+  attempt: number,
+  error: unknown
+): number | null {
+  if (policy.respectRetryAfter) {
+    const retryAfter = getRetryAfterSeconds(error);
+    if (retryAfter !== undefined) {
+      const retryAfterMs = retryAfter * 1000;
+      return retryAfterMs > policy.maxRetryAfterMs ? null : retryAfterMs;
+    }
+  }
+
+  const backoff = Math.min(
+    policy.maxDelayMs,
+    policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1)
+  );
+
+  return policy.jitter ? Math.floor(Math.random() * backoff) : backoff;
+}
+
+/**
+ * Wait for the given number of milliseconds
+ * Rejects with the signal's reason if it is aborted while waiting
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function getRetryAfterSeconds(error: unknown): number | undefined {
+  if (error instanceof VegapRateLimitError) {
+    return error.retryAfter;
+  }
+  if (error instanceof VegapApiError && error.headers) {
+    return parseRetryAfter(error.headers.get('retry-after'));
+  }
+  return undefined;
+}
@@ -0,0 +1,52 @@
+import type {
+  SchemaIssue,
+  SchemaResult,
+  ValidationMode,
+  VegapSchema,
+} from './types.js';
+import { VegapValidationError } from './errors.js';
+
+/**
+ * Check whether a schema is a Standard Schema object (zod, valibot, arktype, ...)
+ */
+export function isStandardSchema(schema: unknown): schema is Extract<VegapSchema, { '~standard': unknown }> {
+  return typeof schema === 'object' && schema !== null && '~standard' in schema;
+}
+
+/**
+ * Run a schema against a value
+ */
+export async function runSchema<T>(schema: VegapSchema<T>, value: unknown): Promise<SchemaResult<T>> {
+  if (isStandardSchema(schema)) {
+    return schema['~standard'].validate(value);
+  }
+  if (typeof schema === 'function') {
+    return schema(value);
+  }
+  throw new Error('Invalid schema. Use a validator function or a Standard Schema object (zod, valibot, ...).');
+}
+
+/**
+ * Validate a response value
+ * In "throw" mode a mismatch throws a VegapValidationError; in "report" mode
+ * the original value is returned together with the issues.
+ *
+ * @param target - The custom slug or mapping ID (used in error messages)
+ */
+export async function validateResponse<T>(
+  schema: VegapSchema<T>,
+  value: unknown,
+  mode: ValidationMode,
+  target?: string
+): Promise<{ value: T; issues?: ReadonlyArray<SchemaIssue> }> {
+  const result = await runSchema(schema, value);
+
+  if (result.issues) {
+    if (mode === 'throw') {
+      throw new VegapValidationError(result.issues, value, target);
+    }
+    return { value: value as T, issues: result.issues };
+  }
+
+  return { value: result.value };
+}
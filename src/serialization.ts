@@ -0,0 +1,171 @@
+import type { BodyType, QueryArrayFormat, QueryParams, QuerySerializer } from './types.js';
+
+/**
+ * A serialized request body and the content type it is sent with
+ * No content type means fetch sets it (multipart bodies need its boundary).
+ */
+export interface SerializedBody {
+  body: RequestInit['body'];
+  contentType?: string;
+}
+
+const CONTENT_TYPES: Record<Exclude<BodyType, 'multipart'>, string> = {
+  json: 'application/json',
+  form: 'application/x-www-form-urlencoded',
+  text: 'text/plain; charset=utf-8',
+  binary: 'application/octet-stream',
+};
+
+/**
+ * Serialize query parameters into a query string (including the leading "?")
+ * Undefined and null values are skipped; returns an empty string if nothing remains.
+ *
+ * Nested objects use brackets (`filter[status]=open`). Arrays of scalars depend on the format:
+ * - bracket: `expand[]=a&expand[]=b`
+ * - repeat: `expand=a&expand=b`
+ * - comma: `expand=a,b`
+ * Arrays that contain objects or arrays are always indexed (`items[0][price]=p_1`).
+ */
+export function serializeQuery(query: QueryParams, serializer: QuerySerializer = 'repeat'): string {
+  const queryString = typeof serializer === 'function'
+    ? serializer(query).replace(/^\?/, '')
+    : toSearchParams(query, serializer).toString();
+  return queryString ? `?${queryString}` : '';
+}
+
+/**
+ * Serialize a request body for its body type
+ * Without a body type, FormData is sent as multipart, URLSearchParams as a form, binary data
+ * as binary and everything else as JSON (strings are sent unchanged).
+ */
+export function serializeBody(body: unknown, bodyType: BodyType | undefined, serializer: QuerySerializer = 'repeat'): SerializedBody {
+  switch (bodyType ?? inferBodyType(body)) {
+    case 'form':
+      return {
+        body: body instanceof URLSearchParams || typeof body === 'string'
+          ? body.toString()
+          : serializeQuery(body as QueryParams, serializer).slice(1),
+        contentType: CONTENT_TYPES.form,
+      };
+    case 'multipart':
+      return { body: body instanceof FormData ? body : toFormData(body as Record<string, unknown>, serializer) };
+    case 'text':
+      return { body: String(body), contentType: CONTENT_TYPES.text };
+    case 'binary':
+      return { body: toBinary(body), contentType: CONTENT_TYPES.binary };
+    default:
+      return { body: typeof body === 'string' ? body : JSON.stringify(body, jsonReplacer), contentType: CONTENT_TYPES.json };
+  }
+}
+
+/**
+ * Convert BigInt values for JSON.stringify (as strings, since JSON numbers lose their precision)
+ * Dates are already converted by their toJSON().
+ */
+export function jsonReplacer(_key: string, value: unknown): unknown {
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+function inferBodyType(body: unknown): BodyType {
+  if (typeof FormData !== 'undefined' && body instanceof FormData) {
+    return 'multipart';
+  }
+  if (body instanceof URLSearchParams) {
+    return 'form';
+  }
+  if (isBinary(body)) {
+    return 'binary';
+  }
+  return 'json';
+}
+
+function toSearchParams(query: QueryParams, format: QueryArrayFormat): URLSearchParams {
+  const params = new URLSearchParams();
+  flatten(query, format, (key, value) => params.append(key, value));
+  return params;
+}
+
+/**
+ * Walk nested values and emit one key/value pair per scalar
+ */
+function flatten(
+  value: Record<string, unknown>,
+  format: QueryArrayFormat,
+  emit: (key: string, value: string) => void,
+  emitBinary?: (key: string, value: Blob) => void
+): void {
+  const visit = (key: string, current: unknown): void => {
+    if (current === undefined || current === null) {
+      return;
+    }
+    if (emitBinary && isBinary(current)) {
+      emitBinary(key, isBlob(current) ? current : new Blob([toBinary(current)]));
+      return;
+    }
+    if (Array.isArray(current)) {
+      const items = current.filter(item => item !== undefined && item !== null);
+      if (items.some(item => isNested(item) || (emitBinary && isBinary(item)))) {
+        items.forEach((item, index) => visit(`${key}[${index}]`, item));
+      } else if (format === 'comma') {
+        if (items.length > 0) {
+          emit(key, items.map(scalarToString).join(','));
+        }
+      } else {
+        const itemKey = format === 'bracket' ? `${key}[]` : key;
+        items.forEach(item => emit(itemKey, scalarToString(item)));
+      }
+      return;
+    }
+    if (isNested(current)) {
+      Object.entries(current).forEach(([name, item]) => visit(`${key}[${name}]`, item));
+      return;
+    }
+    emit(key, scalarToString(current));
+  };
+
+  Object.entries(value).forEach(([key, current]) => visit(key, current));
+}
+
+function toFormData(body: Record<string, unknown>, serializer: QuerySerializer): FormData {
+  const form = new FormData();
+  const format = typeof serializer === 'function' ? 'repeat' : serializer;
+  flatten(
+    body,
+    format,
+    (key, value) => form.append(key, value),
+    (key, value) => form.append(key, value, typeof File !== 'undefined' && value instanceof File ? value.name : undefined)
+  );
+  return form;
+}
+
+function scalarToString(value: unknown): string {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return String(value);
+}
+
+/**
+ * Plain objects and arrays (everything that is serialized by its entries)
+ */
+function isNested(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !(value instanceof Date) && !isBinary(value);
+}
+
+function isBlob(value: unknown): value is Blob {
+  return typeof Blob !== 'undefined' && value instanceof Blob;
+}
+
+function isBinary(value: unknown): value is ArrayBuffer | ArrayBufferView | Blob {
+  return value instanceof ArrayBuffer || ArrayBuffer.isView(value) || isBlob(value);
+}
+
+function toBinary(body: unknown): Blob | ArrayBuffer | Uint8Array | string {
+  if (isBlob(body) || body instanceof ArrayBuffer || body instanceof Uint8Array) {
+    return body;
+  }
+  if (ArrayBuffer.isView(body)) {
+    return new Uint8Array(body.buffer, body.byteOffset, body.byteLength);
+  }
+  return typeof body === 'string' ? body : String(body);
+}
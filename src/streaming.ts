@@ -0,0 +1,345 @@
+import type {
+  CsvParseOptions,
+  PipelineFileInput,
+  PipelineJobStatus,
+  UploadProgress,
+} from './types.js';
+import { parseCsvRecords, csvRecordsToRows } from './csv.js';
+
+const UPLOAD_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Options for building an upload body (internal)
+ */
+export interface UploadBodyOptions {
+  fileName?: string;
+  contentType?: string;
+  onUploadProgress?: (progress: UploadProgress) => void;
+}
+
+/**
+ * A request body for a pipeline file upload (internal)
+ */
+export interface UploadBody {
+  /**
+   * Create the body for one attempt (replayable bodies create a fresh one each time)
+   */
+  createBody: () => Promise<RequestInit['body']>;
+
+  /**
+   * Content-Type header for streamed multipart bodies
+   * (undefined for FormData, where fetch sets the boundary itself)
+   */
+  contentType?: string;
+
+  /**
+   * Whether the body can be sent again (false for caller-provided streams)
+   */
+  replayable: boolean;
+}
+
+/**
+ * Source of the file bytes, read fresh on each call (internal)
+ */
+interface FileSource {
+  read: () => AsyncIterable<Uint8Array>;
+  size?: number;
+  fileName?: string;
+  replayable: boolean;
+}
+
+/**
+ * Build the multipart request body for a pipeline file upload
+ * In-memory files without a progress callback use FormData; everything else is
+ * streamed as multipart/form-data so large files are never held in memory.
+ */
+export async function createUploadBody(file: PipelineFileInput, options: UploadBodyOptions = {}): Promise<UploadBody> {
+  const { fileName, contentType, onUploadProgress } = options;
+
+  if (!onUploadProgress && isInMemory(file)) {
+    const blob = file instanceof Blob && !contentType
+      ? file
+      : new Blob([file as Blob | Uint8Array], { type: contentType || (file instanceof Blob ? file.type : '') });
+    const name = fileName || (typeof File !== 'undefined' && file instanceof File ? file.name : undefined);
+
+    return {
+      createBody: async () => {
+        const formData = new FormData();
+        if (name) {
+          formData.append('file', blob, name);
+        } else {
+          formData.append('file', blob);
+        }
+        return formData;
+      },
+      replayable: true,
+    };
+  }
+
+  const source = await toFileSource(file);
+  const boundary = `----VegapFormBoundary${Math.random().toString(16).slice(2)}${Date.now().toString(16)}`;
+  const name = fileName || source.fileName || 'file';
+  const type = contentType || (file instanceof Blob && file.type) || 'application/octet-stream';
+
+  return {
+    createBody: async () => createMultipartStream(source, boundary, name, type, onUploadProgress),
+    contentType: `multipart/form-data; boundary=${boundary}`,
+    replayable: source.replayable,
+  };
+}
+
+/**
+ * Check whether a request body is a stream (fetch needs `duplex: "half"` to send it)
+ */
+export function isStreamBody(body: unknown): body is ReadableStream<Uint8Array> {
+  return typeof ReadableStream !== 'undefined' && body instanceof ReadableStream;
+}
+
+/**
+ * Read a Web ReadableStream chunk by chunk
+ */
+export async function* readStream<T>(stream: ReadableStream<T>): AsyncGenerator<T, void, undefined> {
+  const reader = stream.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Decode a byte stream into text chunks
+ */
+export async function* decodeText(chunks: AsyncIterable<Uint8Array>): AsyncGenerator<string, void, undefined> {
+  const decoder = new TextDecoder();
+  for await (const chunk of chunks) {
+    const text = decoder.decode(chunk, { stream: true });
+    if (text) {
+      yield text;
+    }
+  }
+  const rest = decoder.decode();
+  if (rest) {
+    yield rest;
+  }
+}
+
+/**
+ * Streamed result of a pipeline execution
+ * Returned by pipelineStream(); the body is not read until you consume it.
+ *
+ * @example
+ * ```typescript
+ * const result = await vegap.pipelineStream('export-processor', { file: '/data/export.csv' });
+ *
+ * for await (const row of result.rows()) {
+ *   await db.insert(row);
+ * }
+ * ```
+ */
+export class PipelineResultStream {
+  /**
+   * The job ID (from the X-Vegap-Job-Id header, if present)
+   */
+  readonly jobId?: string;
+
+  /**
+   * The job status (from the X-Vegap-Job-Status header, if present)
+   */
+  readonly status?: PipelineJobStatus;
+
+  /**
+   * Content-Type of the result (e.g. "text/csv" or "application/json")
+   */
+  readonly contentType: string;
+
+  /**
+   * The underlying response
+   */
+  readonly response: Response;
+
+  constructor(response: Response) {
+    this.response = response;
+    this.contentType = response.headers.get('content-type') || '';
+    this.jobId = response.headers.get('x-vegap-job-id') ?? undefined;
+    this.status = (response.headers.get('x-vegap-job-status') as PipelineJobStatus | null) ?? undefined;
+  }
+
+  /**
+   * The raw result as a Web ReadableStream of bytes
+   * Use `Readable.fromWeb(result.body)` to get a Node stream.
+   */
+  get body(): ReadableStream<Uint8Array> {
+    if (!this.response.body) {
+      throw new Error('Pipeline response has no body');
+    }
+    return this.response.body as ReadableStream<Uint8Array>;
+  }
+
+  /**
+   * Iterate over the raw result bytes
+   */
+  [Symbol.asyncIterator](): AsyncIterator<Uint8Array> {
+    return readStream(this.body);
+  }
+
+  /**
+   * Read the whole result as text
+   */
+  text(): Promise<string> {
+    return this.response.text();
+  }
+
+  /**
+   * Iterate over the result rows
+   * - CSV: one object per data row, keyed by the header row (see `csv` for parsing options)
+   * - NDJSON: one parsed value per line
+   * - JSON: the elements of the top-level array (or of `result` if it is an array), otherwise the value itself
+   */
+  async *rows<R = Record<string, string>>(csv: CsvParseOptions = {}): AsyncGenerator<R, void, undefined> {
+    if (this.contentType.includes('text/csv')) {
+      const records = parseCsvRecords(decodeText(readStream(this.body)), csv.delimiter);
+      yield* csvRecordsToRows<R>(records, csv);
+      return;
+    }
+
+    if (this.contentType.includes('ndjson') || this.contentType.includes('jsonl')) {
+      let buffered = '';
+      for await (const text of decodeText(readStream(this.body))) {
+        buffered += text;
+        const lines = buffered.split('\n');
+        buffered = lines.pop() || '';
+        for (const line of lines) {
+          if (line.trim()) {
+            yield JSON.parse(line) as R;
+          }
+        }
+      }
+      if (buffered.trim()) {
+        yield JSON.parse(buffered) as R;
+      }
+      return;
+    }
+
+    const value: any = await this.response.json();
+    const items = Array.isArray(value) ? value : Array.isArray(value?.result) ? value.result : [value];
+    yield* items as R[];
+  }
+}
+
+function isInMemory(file: PipelineFileInput): file is Blob | Uint8Array {
+  return file instanceof Blob || file instanceof Uint8Array;
+}
+
+function isNodeReadable(file: unknown): file is NodeJS.ReadableStream {
+  return (
+    typeof file === 'object' &&
+    file !== null &&
+    typeof (file as NodeJS.ReadableStream).pipe === 'function' &&
+    typeof (file as NodeJS.ReadableStream)[Symbol.asyncIterator] === 'function'
+  );
+}
+
+async function toFileSource(file: PipelineFileInput): Promise<FileSource> {
+  if (file instanceof Blob) {
+    return {
+      read: () => readStream(file.stream() as ReadableStream<Uint8Array>),
+      size: file.size,
+      fileName: typeof File !== 'undefined' && file instanceof File ? file.name : undefined,
+      replayable: true,
+    };
+  }
+
+  if (file instanceof Uint8Array) {
+    return {
+      read: async function* () {
+        for (let offset = 0; offset < file.length; offset += UPLOAD_CHUNK_SIZE) {
+          yield file.subarray(offset, offset + UPLOAD_CHUNK_SIZE);
+        }
+      },
+      size: file.length,
+      replayable: true,
+    };
+  }
+
+  if (typeof file === 'string') {
+    // File path - Node.js only, so load fs lazily
+    const fs = await import('fs');
+    const path = await import('path');
+    const { size } = await fs.promises.stat(file);
+    return {
+      read: () => fs.createReadStream(file) as AsyncIterable<Uint8Array>,
+      size,
+      fileName: path.basename(file),
+      replayable: true,
+    };
+  }
+
+  if (isStreamBody(file)) {
+    return {
+      read: () => readStream(file),
+      replayable: false,
+    };
+  }
+
+  if (isNodeReadable(file)) {
+    const streamPath = (file as { path?: unknown }).path;
+    return {
+      read: () => file as AsyncIterable<Uint8Array>,
+      fileName: typeof streamPath === 'string' ? streamPath.split(/[\\/]/).pop() : undefined,
+      replayable: false,
+    };
+  }
+
+  throw new Error('Unsupported file type. Use File, Blob, Buffer, Uint8Array, a readable stream or a file path.');
+}
+
+function createMultipartStream(
+  source: FileSource,
+  boundary: string,
+  fileName: string,
+  contentType: string,
+  onUploadProgress?: (progress: UploadProgress) => void
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const escapedName = fileName.replace(/"/g, '%22').replace(/\r|\n/g, ' ');
+  const head = encoder.encode(
+    `--${boundary}\r\n` +
+    `Content-Disposition: form-data; name="file"; filename="${escapedName}"\r\n` +
+    `Content-Type: ${contentType}\r\n\r\n`
+  );
+  const tail = encoder.encode(`\r\n--${boundary}--\r\n`);
+
+  async function* parts(): AsyncGenerator<Uint8Array, void, undefined> {
+    yield head;
+    let loaded = 0;
+    for await (const chunk of source.read()) {
+      const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+      yield bytes;
+      loaded += bytes.length;
+      onUploadProgress?.({ loaded, total: source.size });
+    }
+    yield tail;
+  }
+
+  const iterator = parts();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await iterator.return();
+    },
+  });
+}
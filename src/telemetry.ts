@@ -0,0 +1,205 @@
+import type {
+  PipelineResponse,
+  ProxyResponse,
+  RetryAttemptInfo,
+  TelemetryAttributes,
+  TelemetryMeter,
+  TelemetryOptions,
+  TelemetrySpan,
+  TransformResponse,
+} from './types.js';
+import { VegapApiError } from './errors.js';
+import { mergeHeaders, stripUndefined } from './utils.js';
+
+// OpenTelemetry's SpanKind.CLIENT and SpanStatusCode.ERROR
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * The span of one operation, shared by all its attempts (internal)
+ */
+export class OperationTrace {
+  /**
+   * HTTP status of the last response
+   */
+  status?: number;
+
+  constructor(readonly span?: TelemetrySpan, private readonly propagate = true) {}
+
+  /**
+   * W3C trace context headers that make the operation span the parent of the server's spans
+   */
+  headers(): Record<string, string> {
+    const context = this.propagate ? this.span?.spanContext() : undefined;
+    // Non-recording spans (e.g. of the no-op tracer) have an all-zero trace ID
+    if (!context || !/^[0-9a-f]{32}$/.test(context.traceId) || /^0+$/.test(context.traceId)) {
+      return {};
+    }
+
+    const flags = (context.traceFlags & 0xff).toString(16).padStart(2, '0');
+    const traceState = context.traceState?.serialize();
+    return {
+      traceparent: `00-${context.traceId}-${context.spanId}-${flags}`,
+      ...(traceState && { tracestate: traceState }),
+    };
+  }
+
+  /**
+   * Add the trace context headers to a request
+   */
+  inject(init: RequestInit): RequestInit {
+    return mergeHeaders(init, this.headers());
+  }
+
+  /**
+   * Record a retry as a span event
+   */
+  retry(info: RetryAttemptInfo): void {
+    this.span?.addEvent('vegap.retry', {
+      'vegap.attempt': info.attempt,
+      'vegap.retry_delay_ms': info.delayMs,
+      'error.type': info.error.name,
+    });
+  }
+}
+
+/**
+ * Creates the operation spans and records the metrics (internal)
+ */
+export class Telemetry {
+  private readonly instruments?: ReturnType<typeof createInstruments>;
+
+  constructor(private readonly options: TelemetryOptions) {
+    this.instruments = options.meter ? createInstruments(options.meter) : undefined;
+  }
+
+  /**
+   * Run an operation in its own span and record its metrics
+   *
+   * @param attributes - What the operation is for (slug, mapping ID, method, ...)
+   * @param describe - Attributes taken from the result (execution time, tokens, cost, ...)
+   */
+  async run<R>(
+    operation: string,
+    attributes: TelemetryAttributes,
+    run: (trace: OperationTrace) => Promise<R>,
+    describe: (result: R) => TelemetryAttributes = () => ({})
+  ): Promise<R> {
+    const operationAttributes = stripUndefined({ 'vegap.operation': operation, ...attributes });
+    const span = this.options.tracer?.startSpan(`vegap.${operation}`, {
+      kind: SPAN_KIND_CLIENT,
+      attributes: operationAttributes,
+    });
+    const trace = new OperationTrace(span, this.options.propagateContext !== false);
+    const startedAt = Date.now();
+
+    let resultAttributes: TelemetryAttributes = {};
+    let error: unknown;
+    try {
+      const result = await run(trace);
+      resultAttributes = describe(result);
+      return result;
+    } catch (caught) {
+      error = caught;
+      throw caught;
+    } finally {
+      const status = error instanceof VegapApiError ? error.status : trace.status;
+      const outcome = stripUndefined({
+        'http.response.status_code': status,
+        'error.type': error ? errorType(error) : undefined,
+      });
+
+      if (span) {
+        Object.entries({ ...stripUndefined(resultAttributes), ...outcome }).forEach(([key, value]) => {
+          span.setAttribute(key, value as string | number | boolean);
+        });
+        if (error) {
+          span.recordException(error instanceof Error ? error : String(error));
+          span.setStatus({ code: SPAN_STATUS_ERROR, message: error instanceof Error ? error.message : String(error) });
+        }
+        span.end();
+      }
+
+      this.record(Date.now() - startedAt, { ...operationAttributes, ...outcome }, resultAttributes);
+    }
+  }
+
+  private record(durationMs: number, attributes: TelemetryAttributes, result: TelemetryAttributes): void {
+    if (!this.instruments) {
+      return;
+    }
+
+    const { operations, duration, tokens, cost } = this.instruments;
+    operations.add(1, attributes);
+    duration.record(durationMs, attributes);
+
+    const tokensUsed = result['vegap.tokens_used'];
+    if (typeof tokensUsed === 'number' && tokensUsed > 0) {
+      tokens.add(tokensUsed, attributes);
+    }
+    const aiCost = result['vegap.ai_cost_usd'];
+    if (typeof aiCost === 'number' && aiCost > 0) {
+      cost.add(aiCost, attributes);
+    }
+  }
+}
+
+/**
+ * Span attributes of a proxy() result
+ */
+export function proxyAttributes(response: ProxyResponse): TelemetryAttributes {
+  return {
+    'vegap.execution_time_ms': response.meta?.execution_time_ms,
+    'vegap.tokens_used': response.meta?.tokens_used,
+    'vegap.ai_cost_usd': response.meta?.ai_cost_usd,
+    'vegap.cache': response.cache,
+  };
+}
+
+/**
+ * Span attributes of a transform() result
+ */
+export function transformAttributes(response: TransformResponse): TelemetryAttributes {
+  return {
+    'vegap.success': response.success,
+    'vegap.execution_time_ms': response.execution_time_ms,
+    'vegap.tokens_used': response.tokens_used,
+    'vegap.ai_cost_usd': response.ai_cost_usd,
+    'vegap.cache': response.cache,
+  };
+}
+
+/**
+ * Span attributes of a pipeline() result
+ */
+export function pipelineAttributes(response: PipelineResponse): TelemetryAttributes {
+  return {
+    'vegap.success': response.success,
+    'vegap.job_id': response.job_id || undefined,
+    'vegap.job_status': response.status,
+    'vegap.execution_time_ms': response.processing_time_ms,
+  };
+}
+
+function createInstruments(meter: TelemetryMeter) {
+  return {
+    operations: meter.createCounter('vegap.client.operations', {
+      description: 'Number of proxy, transform and pipeline calls',
+    }),
+    duration: meter.createHistogram('vegap.client.operation.duration', {
+      description: 'Duration of proxy, transform and pipeline calls, including retries',
+      unit: 'ms',
+    }),
+    tokens: meter.createCounter('vegap.client.tokens_used', {
+      description: 'AI tokens used by transformations',
+    }),
+    cost: meter.createCounter('vegap.client.ai_cost', {
+      description: 'AI cost of transformations',
+      unit: 'USD',
+    }),
+  };
+}
+
+function errorType(error: unknown): string {
+  return error instanceof Error ? error.name : typeof error;
+}
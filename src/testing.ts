@@ -0,0 +1,558 @@
+import type { PipelineJob, PipelineJobStatus, VegapConfig } from './types.js';
+import { Vegap } from './index.js';
+import { isTerminalJobStatus } from './jobs.js';
+import { sleep } from './retry.js';
+
+/**
+ * The kind of API call a recorded request was
+ */
+export type MockOperation = 'proxy' | 'transform' | 'pipeline' | 'jobs' | 'whoami' | 'request';
+
+/**
+ * A request received by the mock
+ */
+export interface MockCall {
+  operation: MockOperation;
+
+  /**
+   * HTTP method (upper case)
+   */
+  method: string;
+
+  /**
+   * Full request URL
+   */
+  url: string;
+
+  /**
+   * URL path (without the query string)
+   */
+  path: string;
+
+  /**
+   * Custom slug, mapping ID, pipeline slug or ID, or job ID the request was for
+   */
+  target?: string;
+
+  /**
+   * Additional path below a proxy endpoint (ProxyOptions.path)
+   */
+  subPath?: string;
+
+  /**
+   * Query parameters
+   */
+  query: Record<string, string>;
+
+  /**
+   * Request headers (lower-case names)
+   */
+  headers: Record<string, string>;
+
+  /**
+   * Request body: parsed JSON, text, or FormData for file uploads
+   */
+  body?: unknown;
+
+  /**
+   * Whether a fixture answered the request (unmatched requests get a 404)
+   */
+  matched: boolean;
+}
+
+/**
+ * A mocked response
+ */
+export interface MockFixture<T = any> {
+  /**
+   * Response data: the proxy data, the transform output or the pipeline result
+   */
+  data?: T;
+
+  /**
+   * Raw response body, sent as is instead of the body built from `data`
+   */
+  body?: unknown;
+
+  /**
+   * HTTP status
+   * @default 200
+   */
+  status?: number;
+
+  /**
+   * Response headers
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Error message of an error response (status defaults to 500)
+   */
+  error?: string;
+
+  /**
+   * Error code of an error response
+   */
+  code?: string;
+
+  /**
+   * Errors of an unsuccessful transform (the transform answers with `success: false`)
+   */
+  errors?: string[];
+
+  /**
+   * Fail without a response, like an unreachable server (a message, or true for "fetch failed")
+   */
+  networkError?: boolean | string;
+
+  /**
+   * Delay before responding, in milliseconds (overrides VegapMockOptions.latencyMs)
+   */
+  delayMs?: number;
+
+  /**
+   * Statuses the pipeline job goes through, one per jobs.get() call (pipelines only)
+   * The pipeline call answers with the first status; the result is only returned once completed.
+   *
+   * @example ['queued', 'processing', 'completed']
+   */
+  jobStates?: PipelineJobStatus[];
+
+  /**
+   * Error message of the job once it reaches the `failed` status (pipelines only)
+   */
+  jobError?: string;
+
+  /**
+   * ID of the created job (pipelines only)
+   * @default "mock-job-<n>"
+   */
+  jobId?: string;
+}
+
+/**
+ * Builds the fixture from the request (may be async)
+ */
+export type MockHandler<T = any> = (call: MockCall) => MockFixture<T> | Promise<MockFixture<T>>;
+
+/**
+ * Options for registering a fixture
+ */
+export interface MockFixtureOptions {
+  /**
+   * Only answer this many requests, then fall back to the next fixture
+   * Limited fixtures are used before unlimited ones, in the order they were registered.
+   */
+  times?: number;
+}
+
+/**
+ * Options for VegapMock
+ */
+export interface VegapMockOptions {
+  /**
+   * Company ID used by createClient() and returned by whoami()
+   * @default "mock-company"
+   */
+  companyId?: string;
+
+  /**
+   * Base URL used by createClient()
+   * @default "https://api.vegap.test"
+   */
+  baseUrl?: string;
+
+  /**
+   * Delay before every response, in milliseconds
+   * @default 0
+   */
+  latencyMs?: number;
+}
+
+interface RegisteredFixture {
+  fixture: MockFixture | MockHandler;
+  remaining?: number;
+}
+
+interface MockJob {
+  job: PipelineJob;
+  states: PipelineJobStatus[];
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * In-memory stand-in for the Vegap API, for testing code that uses the SDK without network access
+ * Answers the proxy, transform, pipeline and jobs routes from registered fixtures and records every request.
+ *
+ * @example
+ * ```typescript
+ * import { VegapMock } from 'vegap-sdk/testing';
+ *
+ * const mock = new VegapMock();
+ * mock.onProxy('stripe-customers', { data: { id: 'cus_123' } });
+ * mock.onProxy('stripe-customers', { status: 503, error: 'Upstream unavailable' }, { times: 1 });
+ *
+ * const vegap = mock.createClient();
+ * await expect(vegap.proxy('stripe-customers')).rejects.toThrow('Upstream unavailable');
+ * const { data } = await vegap.proxy('stripe-customers');
+ *
+ * expect(mock.callsTo('stripe-customers')).toHaveLength(2);
+ * ```
+ */
+export class VegapMock {
+  readonly companyId: string;
+  readonly baseUrl: string;
+  private readonly latencyMs: number;
+  private readonly fixtures = new Map<string, RegisteredFixture[]>();
+  private readonly jobs = new Map<string, MockJob>();
+  private readonly recorded: MockCall[] = [];
+  private jobCount = 0;
+  private requestCount = 0;
+
+  constructor(options: VegapMockOptions = {}) {
+    this.companyId = options.companyId || 'mock-company';
+    this.baseUrl = (options.baseUrl || 'https://api.vegap.test').replace(/\/$/, '');
+    this.latencyMs = options.latencyMs ?? 0;
+    this.fetch = this.fetch.bind(this);
+  }
+
+  /**
+   * All requests received so far, in order
+   */
+  get calls(): readonly MockCall[] {
+    return this.recorded;
+  }
+
+  /**
+   * Create a client that sends its requests to this mock
+   * Retries are off unless configured, so simulated errors surface right away.
+   */
+  createClient(config: Partial<VegapConfig> = {}): Vegap {
+    return new Vegap({
+      apiKey: 'mock-api-key',
+      companyId: this.companyId,
+      baseUrl: this.baseUrl,
+      retry: false,
+      ...config,
+      fetch: this.fetch,
+    });
+  }
+
+  /**
+   * Answer proxy requests for a custom slug or mapping ID
+   */
+  onProxy<T = any>(slugOrMappingId: string, fixture: MockFixture<T> | MockHandler<T>, options?: MockFixtureOptions): this {
+    return this.register('proxy', slugOrMappingId, fixture, options);
+  }
+
+  /**
+   * Answer transform requests for a mapping ID
+   */
+  onTransform<T = any>(mappingId: string, fixture: MockFixture<T> | MockHandler<T>, options?: MockFixtureOptions): this {
+    return this.register('transform', mappingId, fixture, options);
+  }
+
+  /**
+   * Answer pipeline executions for a pipeline slug or ID
+   */
+  onPipeline<T = any>(slugOrPipelineId: string, fixture: MockFixture<T> | MockHandler<T>, options?: MockFixtureOptions): this {
+    return this.register('pipeline', slugOrPipelineId, fixture, options);
+  }
+
+  /**
+   * Answer any other request by method and path (e.g. "GET", "/api/mappings")
+   * The fixture's `data` is sent as the JSON body.
+   */
+  onRequest<T = any>(method: string, path: string, fixture: MockFixture<T> | MockHandler<T>, options?: MockFixtureOptions): this {
+    return this.register('request', `${method.toUpperCase()} ${path}`, fixture, options);
+  }
+
+  /**
+   * Requests for a custom slug, mapping ID, pipeline or job (optionally of one operation)
+   */
+  callsTo(target: string, operation?: MockOperation): MockCall[] {
+    return this.recorded.filter(call =>
+      call.target?.toLowerCase() === target.toLowerCase() && (!operation || call.operation === operation)
+    );
+  }
+
+  /**
+   * The most recent request (for a target, if given)
+   */
+  lastCall(target?: string): MockCall | undefined {
+    const calls = target ? this.callsTo(target) : this.recorded;
+    return calls[calls.length - 1];
+  }
+
+  /**
+   * Get a job created by a mocked pipeline execution
+   */
+  getJob(jobId: string): PipelineJob | undefined {
+    return this.jobs.get(jobId)?.job;
+  }
+
+  /**
+   * Forget the recorded requests, keeping fixtures and jobs
+   */
+  clearCalls(): void {
+    this.recorded.length = 0;
+  }
+
+  /**
+   * Forget all fixtures, jobs and recorded requests
+   */
+  reset(): void {
+    this.fixtures.clear();
+    this.jobs.clear();
+    this.clearCalls();
+  }
+
+  /**
+   * fetch implementation that answers from the fixtures
+   * Pass it as VegapConfig.fetch to use the mock with a client you create yourself.
+   */
+  async fetch(input: string, init: RequestInit = {}): Promise<Response> {
+    const call = await this.record(input, init);
+    const registered = this.take(call);
+    if (!registered) {
+      const job = call.operation === 'jobs' ? this.answerJob(call) : undefined;
+      return job ?? this.respond(call, { status: 404, error: `No mock for ${call.method} ${call.path}`, code: 'mock_not_found' }, init.signal);
+    }
+
+    call.matched = true;
+    const fixture = typeof registered.fixture === 'function'
+      ? await registered.fixture(call)
+      : registered.fixture;
+    return this.respond(call, fixture, init.signal);
+  }
+
+  private register(
+    operation: MockOperation,
+    target: string,
+    fixture: MockFixture | MockHandler,
+    options: MockFixtureOptions = {}
+  ): this {
+    const key = `${operation}:${operation === 'request' ? target : target.toLowerCase()}`;
+    const list = this.fixtures.get(key) || [];
+
+    if (options.times === undefined) {
+      // A new unlimited fixture replaces the previous one
+      this.fixtures.set(key, [...list.filter(entry => entry.remaining !== undefined), { fixture }]);
+    } else {
+      const unlimited = list.filter(entry => entry.remaining === undefined);
+      const limited = list.filter(entry => entry.remaining !== undefined);
+      this.fixtures.set(key, [...limited, { fixture, remaining: options.times }, ...unlimited]);
+    }
+    return this;
+  }
+
+  /**
+   * Find the fixture for a request, using up one answer of a limited fixture
+   */
+  private take(call: MockCall): RegisteredFixture | undefined {
+    const key = call.operation === 'request' || call.operation === 'jobs' || call.operation === 'whoami'
+      ? `request:${call.method} ${call.path}`
+      : `${call.operation}:${call.target?.toLowerCase()}`;
+    const list = this.fixtures.get(key) || [];
+    const entry = list.find(candidate => candidate.remaining === undefined || candidate.remaining > 0);
+    if (entry?.remaining !== undefined && --entry.remaining === 0) {
+      this.fixtures.set(key, list.filter(candidate => candidate !== entry));
+    }
+
+    if (!entry && call.operation === 'whoami') {
+      return { fixture: { data: { company_id: this.companyId } } };
+    }
+    return entry;
+  }
+
+  private async record(input: string, init: RequestInit): Promise<MockCall> {
+    const url = new URL(input);
+    const method = (init.method || 'GET').toUpperCase();
+    const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    const call: MockCall = {
+      operation: 'request',
+      method,
+      url: input,
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      headers: Object.fromEntries(new Headers(init.headers).entries()),
+      body: await readBody(init.body),
+      matched: false,
+    };
+
+    // /api/proxy/custom/:companyId/:slug/... and /api/proxy/:mappingId/...
+    // /api/pipelines/custom/:companyId/:slug, /api/pipelines/execute/:pipelineId and /api/pipelines/jobs/...
+    const [api, resource, ...rest] = segments;
+    if (api === 'api' && resource === 'proxy' && rest.length > 0) {
+      const targetIndex = rest[0] === 'custom' ? 2 : 0;
+      call.operation = 'proxy';
+      call.target = rest[targetIndex];
+      call.subPath = rest.slice(targetIndex + 1).join('/') || undefined;
+    } else if (api === 'api' && resource === 'transform') {
+      call.operation = 'transform';
+      call.target = (call.body as { mapping_id?: string } | undefined)?.mapping_id;
+    } else if (api === 'api' && resource === 'pipelines' && rest[0] === 'custom') {
+      call.operation = 'pipeline';
+      call.target = rest[2];
+    } else if (api === 'api' && resource === 'pipelines' && rest[0] === 'execute') {
+      call.operation = 'pipeline';
+      call.target = rest[1];
+    } else if (api === 'api' && resource === 'pipelines' && rest[0] === 'jobs') {
+      call.operation = 'jobs';
+      call.target = rest[1];
+    } else if (api === 'api' && resource === 'auth' && rest[0] === 'whoami') {
+      call.operation = 'whoami';
+    }
+
+    this.recorded.push(call);
+    return call;
+  }
+
+  private async respond(call: MockCall, fixture: MockFixture, signal?: AbortSignal | null): Promise<Response> {
+    await sleep(fixture.delayMs ?? this.latencyMs, signal ?? undefined);
+
+    if (fixture.networkError) {
+      throw new TypeError(typeof fixture.networkError === 'string' ? fixture.networkError : 'fetch failed');
+    }
+
+    const status = fixture.status ?? (fixture.error ? 500 : 200);
+    const headers = new Headers({ 'x-request-id': `mock-request-${++this.requestCount}`, ...fixture.headers });
+
+    let body: unknown;
+    if (fixture.body !== undefined) {
+      body = fixture.body;
+    } else if (status >= 400) {
+      body = { error: fixture.error || `HTTP ${status}`, ...(fixture.code && { code: fixture.code }) };
+    } else if (call.operation === 'transform') {
+      body = {
+        success: !fixture.errors?.length,
+        output: fixture.data,
+        ...(fixture.errors && { errors: fixture.errors }),
+        meta: { mapping_id: call.target },
+      };
+    } else if (call.operation === 'pipeline') {
+      body = this.createJob(call, fixture);
+    } else {
+      body = fixture.data;
+    }
+
+    if (typeof body === 'string') {
+      return new Response(body, { status, headers });
+    }
+    if (body === undefined || status === 204) {
+      return new Response(null, { status, headers });
+    }
+    if (!headers.has('content-type')) {
+      headers.set('content-type', 'application/json');
+    }
+    return new Response(JSON.stringify(body), { status, headers });
+  }
+
+  /**
+   * Create the job of a mocked pipeline execution and build the execution response
+   */
+  private createJob(call: MockCall, fixture: MockFixture): unknown {
+    const states = fixture.jobStates?.length ? fixture.jobStates : ['completed' as const];
+    const jobId = fixture.jobId || `mock-job-${++this.jobCount}`;
+    const now = new Date().toISOString();
+    const entry: MockJob = {
+      job: { job_id: jobId, pipeline_id: call.target, status: states[0], created_at: now, updated_at: now },
+      states: states.slice(1),
+      result: fixture.data,
+      error: fixture.jobError,
+    };
+    this.jobs.set(jobId, settle(entry));
+
+    return {
+      success: entry.job.status !== 'failed' && entry.job.status !== 'cancelled',
+      ...entry.job,
+    };
+  }
+
+  /**
+   * Answer the jobs routes from the jobs created by pipeline executions
+   * Every jobs.get() moves a job on to its next status.
+   */
+  private answerJob(call: MockCall): Promise<Response> | undefined {
+    const respond = (data: unknown) => {
+      call.matched = true;
+      return this.respond(call, { data });
+    };
+
+    if (!call.target && call.method === 'GET') {
+      const statuses = call.query.status?.split(',');
+      const jobs = [...this.jobs.values()]
+        .map(entry => entry.job)
+        .filter(job => !call.query.pipeline_id || job.pipeline_id === call.query.pipeline_id)
+        .filter(job => !statuses || statuses.includes(job.status));
+      return respond({ jobs: jobs.slice(0, Number(call.query.limit) || undefined), total: jobs.length });
+    }
+
+    const entry = call.target ? this.jobs.get(call.target) : undefined;
+    if (!entry) {
+      return undefined;
+    }
+
+    if (call.method === 'POST' && call.path.endsWith('/cancel')) {
+      if (!isTerminalJobStatus(entry.job.status)) {
+        entry.states = [];
+        update(entry, 'cancelled');
+      }
+      return respond(entry.job);
+    }
+
+    if (call.method === 'GET') {
+      const next = entry.states.shift();
+      if (next) {
+        settle(update(entry, next));
+      }
+      return respond(entry.job);
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Move a job to a new status
+ */
+function update(entry: MockJob, status: PipelineJobStatus): MockJob {
+  entry.job = { ...entry.job, status, updated_at: new Date().toISOString() };
+  return entry;
+}
+
+/**
+ * Fill in the result or error once a job reached a terminal status
+ */
+function settle(entry: MockJob): MockJob {
+  const { job } = entry;
+  if (job.status === 'completed') {
+    entry.job = { ...job, result: entry.result, progress: 1, completed_at: job.updated_at };
+  } else if (job.status === 'failed') {
+    entry.job = { ...job, error: entry.error || 'Pipeline failed', completed_at: job.updated_at };
+  }
+  return entry;
+}
+
+/**
+ * Read a request body for the call record
+ */
+async function readBody(body: RequestInit['body']): Promise<unknown> {
+  if (body === undefined || body === null) {
+    return undefined;
+  }
+  if (body instanceof FormData) {
+    return body;
+  }
+
+  // Other bodies (e.g. streamed uploads) are recorded as text
+  const text = typeof body === 'string' ? body : await new Response(body).text().catch(() => undefined);
+  if (text === undefined) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
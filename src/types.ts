@@ -3,9 +3,15 @@
  */
 export interface VegapConfig {
   /**
-   * Your Vegap API key
+   * Your Vegap API key (required unless `credentials` is set)
    */
-  apiKey: string;
+  apiKey?: string;
+
+  /**
+   * Provides the API key or bearer token per request, instead of a fixed `apiKey`
+   * The credential is cached until it expires, and refreshed once when a request fails with 401.
+   */
+  credentials?: CredentialProvider;
   
   /**
    * Base URL of the Vegap API server
@@ -17,200 +23,2212 @@ export interface VegapConfig {
    * Company ID (optional, will be inferred from API key if not provided)
    */
   companyId?: string;
+
+  /**
+   * Retry policy applied to every request
+   * Set to false to disable retries entirely
+   */
+  retry?: RetryOptions | false;
+
+  /**
+   * Timeout for each request attempt, in milliseconds (until the response body has been read;
+   * for pipelineStream() until the response headers are received). Set to 0 to disable
+   * @default 60000
+   */
+  timeoutMs?: number;
+
+  /**
+   * Timeout for pipeline file uploads, in milliseconds
+   * Set to 0 to disable
+   * @default 300000
+   */
+  uploadTimeoutMs?: number;
+
+  /**
+   * Middleware applied to every request, in order (see Vegap.use())
+   */
+  middleware?: VegapMiddleware[];
+
+  /**
+   * fetch implementation to use instead of the global fetch
+   * (e.g. undici's fetch, node-fetch, or a mock in unit tests)
+   */
+  fetch?: FetchLike;
+
+  /**
+   * Connection settings: agent/dispatcher, proxy, TLS certificates and keep-alive
+   */
+  connection?: ConnectionOptions;
+
+  /**
+   * Cache GET proxy responses (and optionally transform results)
+   * Disabled unless set.
+   */
+  cache?: CacheOptions;
+
+  /**
+   * Client-side rate limiting and concurrency control
+   * Disabled unless set.
+   */
+  rateLimit?: RateLimitConfig;
+
+  /**
+   * OpenTelemetry tracing and metrics
+   * Disabled unless set.
+   */
+  telemetry?: TelemetryOptions;
+
+  /**
+   * Schemas to validate responses against, keyed by custom slug or mapping ID
+   * Applied to proxy() data and transform() output unless a schema is passed per call
+   */
+  schemas?: Record<string, VegapSchema>;
+
+  /**
+   * What to do when a response does not match its schema
+   * - throw: throw a VegapValidationError
+   * - report: return the data unchanged with the issues in `validationIssues`
+   * @default "throw"
+   */
+  validationMode?: ValidationMode;
+
+  /**
+   * How proxy() query parameters and form bodies serialize arrays (per call via ProxyOptions.querySerializer)
+   * @default "repeat"
+   */
+  querySerializer?: QuerySerializer;
 }
 
 /**
- * Options for proxy requests
+ * Credential sent with every request
  */
-export interface ProxyOptions {
+export interface VegapCredential {
   /**
-   * Query parameters to include in the request
+   * API key, sent as `X-API-Key`
    */
-  query?: Record<string, string | number | boolean | undefined>;
-  
+  apiKey?: string;
+
   /**
-   * Request body (for POST, PUT, PATCH requests)
+   * Bearer token (e.g. an OAuth access token), sent as `Authorization: Bearer <token>`
    */
-  body?: Record<string, any> | string;
-  
+  bearerToken?: string;
+
   /**
-   * HTTP method
-   * @default "GET"
+   * When the credential expires (epoch milliseconds)
+   * It is refreshed shortly before, so requests never use an expired credential.
    */
-  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
-  
+  expiresAt?: number;
+
   /**
-   * Additional path segments to append to the proxy endpoint
-   * Example: if using custom slug "stripe-customers" and path is "cus_123", 
-   * the request will be made to /api/proxy/custom/:companyId/stripe-customers/cus_123
+   * Stable identity of the credential, used in cache keys instead of the secret
+   * Set it for short-lived tokens, so cached responses survive a token refresh.
    */
-  path?: string;
-  
+  id?: string;
+}
+
+/**
+ * Returns the current credential
+ * `forceRefresh` is true when the previous credential was rejected (401), so cached tokens must not be reused.
+ */
+export type CredentialProvider = (options: { forceRefresh: boolean }) => VegapCredential | Promise<VegapCredential>;
+
+/**
+ * Credentials of one company (tenant) in a VegapPool
+ */
+export interface TenantCredentials {
   /**
-   * Additional headers to include in the request
+   * The company's Vegap API key
    */
-  headers?: Record<string, string>;
-  
+  apiKey?: string;
+
   /**
-   * Mapping ID to use instead of custom slug
-   * If provided, uses /api/proxy/:mappingid instead of /api/proxy/custom/:companyId/:customSlug
+   * Provider of the company's credential (instead of a fixed `apiKey`)
    */
-  mappingId?: string;
+  credentials?: CredentialProvider;
 }
 
 /**
- * Simplified proxy options - can be a simple object for GET requests
- * or a ProxyOptions object for more control
+ * Resolves the credentials of a company when its client is first needed
  */
-export type ProxyOptionsInput = 
-  | Record<string, string | number | boolean | undefined>
-  | ProxyOptions;
+export type TenantCredentialsProvider = (companyId: string) => TenantCredentials | Promise<TenantCredentials>;
 
 /**
- * Options for transform requests
+ * Configuration of a VegapPool
+ * Everything except the credentials is shared by the clients of all companies.
  */
-export interface TransformOptions {
+export interface VegapPoolConfig extends Omit<VegapConfig, 'apiKey' | 'companyId' | 'credentials'> {
   /**
-   * The raw API response to transform
+   * Looks up the credentials of a company (unless they are passed to forCompany())
    */
-  rawResponse: Record<string, any> | string;
-  
+  credentials?: TenantCredentialsProvider;
+}
+
+/**
+ * The request seen by middleware
+ * `url` and `init` can be modified before calling next().
+ */
+export interface RequestContext {
   /**
-   * Mapping ID to use for transformation
+   * The SDK operation that issued the request
+   * ("proxy", "pipeline", "transform", "whoami", "jobs.get", "jobs.cancel", "jobs.list", ...)
    */
-  mappingId: string;
+  operation: string;
+
+  /**
+   * Custom slug of the mapping or pipeline (if used)
+   */
+  slug?: string;
+
+  /**
+   * Mapping ID (if used)
+   */
+  mappingId?: string;
+
+  /**
+   * Pipeline ID (if used)
+   */
+  pipelineId?: string;
+
+  /**
+   * Full request URL
+   */
+  url: string;
+
+  /**
+   * Request options passed to fetch
+   */
+  init: RequestInit;
+
+  /**
+   * Attempt number (1-based, increases with retries)
+   */
+  attempt: number;
+
+  /**
+   * Free-form storage for passing data between middleware
+   */
+  state: Record<string, unknown>;
 }
 
 /**
- * Response from a proxy request
+ * Middleware wrapping each request attempt
+ * Call next() to continue with the request (optionally after modifying ctx.url / ctx.init),
+ * or return a Response without calling it to short-circuit. Non-OK responses are turned
+ * into VegapApiError after the middleware chain; network failures reject next()
+ * with a VegapNetworkError.
  */
-export interface ProxyResponse<T = any> {
+export type VegapMiddleware = (
+  ctx: RequestContext,
+  next: () => Promise<Response>
+) => Promise<Response>;
+
+/**
+ * A fetch-compatible function
+ */
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Connection settings for the HTTP client
+ *
+ * The proxy, TLS and keep-alive settings create an undici dispatcher, which requires the
+ * optional `undici` package to be installed. They apply to the built-in Node.js fetch
+ * (or undici's fetch); pass `agent` instead when using node-fetch.
+ */
+export interface ConnectionOptions {
   /**
-   * The transformed response data
+   * undici Dispatcher to send requests through (Agent, Pool, ProxyAgent, MockAgent, ...)
+   * Takes precedence over proxyUrl and the TLS/keep-alive settings.
    */
-  data: T;
-  
+  dispatcher?: unknown;
+
   /**
-   * Response metadata
+   * http.Agent / https.Agent passed as `agent` (for node-fetch and other agent-based fetch implementations)
    */
-  meta?: {
-    mapping_id?: string;
-    mapping_name?: string;
-    execution_time_ms?: number;
-    tokens_used?: number;
-    ai_cost_usd?: number;
-  };
+  agent?: unknown;
+
+  /**
+   * HTTP(S) proxy to send all requests through (e.g. "http://proxy.corp.local:3128")
+   */
+  proxyUrl?: string;
+
+  /**
+   * CA certificates (PEM) to trust, e.g. a corporate root CA bundle
+   */
+  ca?: string | Buffer | Array<string | Buffer>;
+
+  /**
+   * Client certificate (PEM) for mutual TLS
+   */
+  cert?: string | Buffer;
+
+  /**
+   * Private key (PEM) of the client certificate for mutual TLS
+   */
+  key?: string | Buffer;
+
+  /**
+   * Passphrase of the private key
+   */
+  passphrase?: string;
+
+  /**
+   * Reject servers whose certificate cannot be verified
+   * @default true
+   */
+  rejectUnauthorized?: boolean;
+
+  /**
+   * How long idle keep-alive connections are kept open, in milliseconds
+   */
+  keepAliveTimeoutMs?: number;
+
+  /**
+   * Maximum number of connections per origin
+   */
+  maxConnections?: number;
 }
 
 /**
- * Response from a transform request
+ * A cached response, as kept in a CacheStore
  */
-export interface TransformResponse<T = any> {
+export interface CachedResponse {
   /**
-   * Whether the transformation was successful
+   * HTTP status of the response
    */
-  success: boolean;
-  
+  status: number;
+
   /**
-   * The transformed output
+   * Response headers
    */
-  output: T;
-  
+  headers: Record<string, string>;
+
   /**
-   * Any errors that occurred during transformation
+   * Response body as text
    */
-  errors?: string[];
-  
+  body: string;
+
   /**
-   * Execution time in milliseconds
+   * When the response was stored (epoch milliseconds)
    */
-  execution_time_ms?: number;
-  
+  storedAt: number;
+
   /**
-   * Tokens used (if AI transformation was used)
+   * Until when the response is fresh (epoch milliseconds)
    */
-  tokens_used?: number;
-  
+  expiresAt: number;
+
   /**
-   * AI cost in USD (if AI transformation was used)
+   * Until when the response may be served stale while it is revalidated (epoch milliseconds)
    */
-  ai_cost_usd?: number;
-  
+  staleUntil: number;
+}
+
+/**
+ * Storage backend for the response cache
+ * Methods may return values directly or as promises.
+ */
+export interface CacheStore {
   /**
-   * Metadata about the mapping used
+   * Read an entry (undefined if missing or expired)
    */
-  meta?: {
-    mapping_id?: string;
-    mapping_name?: string;
-  };
+  get(key: string): CachedResponse | undefined | Promise<CachedResponse | undefined>;
+
+  /**
+   * Store an entry for ttlMs milliseconds
+   */
+  set(key: string, value: CachedResponse, ttlMs: number): void | Promise<void>;
+
+  /**
+   * Remove an entry
+   */
+  delete(key: string): void | Promise<void>;
+
+  /**
+   * Remove all entries whose key starts with the prefix
+   */
+  clear(prefix: string): void | Promise<void>;
 }
 
 /**
- * Options for pipeline execution requests
+ * Client-side response cache settings
  */
-export interface PipelineOptions {
+export interface CacheOptions {
   /**
-   * File to upload (File, Blob, or Buffer)
+   * Where cached responses are kept
+   * @default an in-memory LRU store with 1000 entries
    */
-  file?: File | Blob | Buffer;
-  
+  store?: CacheStore;
+
   /**
-   * JSON data to send (alternative to file)
+   * How long responses stay fresh, in milliseconds
+   * @default 60000
    */
-  data?: Record<string, any>;
-  
+  ttlMs?: number;
+
   /**
-   * Additional headers to include in the request
+   * Fresh time per custom slug or mapping ID, in milliseconds (0 disables caching for it)
    */
-  headers?: Record<string, string>;
-  
+  ttlBySlug?: Record<string, number>;
+
   /**
-   * Pipeline ID to use instead of custom slug
-   * If provided, uses /api/pipelines/execute/:pipelineId instead of /api/pipelines/custom/:companyId/:slug
+   * How long an expired response may still be served while it is refreshed in the background, in milliseconds
+   * @default 0
    */
-  pipelineId?: string;
+  staleWhileRevalidateMs?: number;
+
+  /**
+   * Request headers whose values are part of the cache key (e.g. ["Accept-Language"])
+   */
+  varyHeaders?: string[];
+
+  /**
+   * Also cache successful transform() results, keyed by mapping ID and raw response
+   * @default false
+   */
+  transform?: boolean;
+
+  /**
+   * Prefix for all cache keys (useful when sharing a store)
+   * @default "vegap:"
+   */
+  keyPrefix?: string;
 }
 
 /**
- * Response from a pipeline execution request
+ * Per-request cache settings
  */
-export interface PipelineResponse<T = any> {
+export interface RequestCacheOptions {
   /**
-   * Whether the pipeline execution was successful
+   * Fresh time for this request, in milliseconds (overrides CacheOptions.ttlMs and ttlBySlug)
    */
-  success: boolean;
-  
+  ttlMs?: number;
+
   /**
-   * The job ID for this execution
+   * Stale-while-revalidate window for this request, in milliseconds
    */
-  job_id: string;
-  
+  staleWhileRevalidateMs?: number;
+}
+
+/**
+ * Where a response came from
+ * - hit: a fresh cached response
+ * - stale: an expired cached response (a refresh was started in the background)
+ * - miss: the API (cacheable responses were stored)
+ */
+export type CacheStatus = 'hit' | 'stale' | 'miss';
+
+/**
+ * Priority of a request waiting for the rate limiter (higher priorities are sent first)
+ */
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+/**
+ * Limits for one rate limiter
+ */
+export interface RateLimitOptions {
   /**
-   * The processed output (for JSON output format)
+   * Sustained request rate (token bucket refill rate)
+   * Unlimited if not set.
    */
-  result?: T;
-  
+  requestsPerSecond?: number;
+
   /**
-   * The processing status
+   * Requests that may be sent at once before the rate applies (token bucket size)
+   * @default requestsPerSecond (at least 1)
    */
-  status: string;
-  
+  burst?: number;
+
   /**
-   * Processing time in milliseconds
+   * Maximum number of requests in flight at the same time
+   * Unlimited if not set.
    */
-  processing_time_ms?: number;
-  
+  maxConcurrent?: number;
+
   /**
-   * Message (for webhook output format)
+   * Maximum number of requests waiting; further requests fail with a VegapQueueFullError
+   * Unlimited if not set.
    */
-  message?: string;
+  maxQueueSize?: number;
 }
 
 /**
- * Error response from the API
+ * Client-side rate limiting settings
+ * The top-level limits apply to all requests; `operations` and `slugs` add limits
+ * for single operations ("proxy", "transform", "pipeline", ...) and custom slugs or IDs.
+ * A request waits until every limiter that applies to it lets it through.
  */
-export interface VegapError {
-  error: string;
-  [key: string]: any;
-}
+export interface RateLimitConfig extends RateLimitOptions {
+  /**
+   * Limits per operation
+   */
+  operations?: Record<string, RateLimitOptions>;
+
+  /**
+   * Limits per custom slug, mapping ID or pipeline ID
+   */
+  slugs?: Record<string, RateLimitOptions>;
 
+  /**
+   * Pause all requests when the API reports an exhausted rate limit
+   * (X-RateLimit-Remaining: 0 with X-RateLimit-Reset, or a 429 response with Retry-After)
+   * @default true
+   */
+  adaptive?: boolean;
+}
+
+/**
+ * Statistics of one rate limiter
+ */
+export interface RateLimiterStats {
+  /**
+   * Requests currently in flight
+   */
+  active: number;
+
+  /**
+   * Requests currently waiting
+   */
+  queued: number;
+
+  /**
+   * Waiting requests per priority
+   */
+  queuedByPriority: Record<RequestPriority, number>;
+
+  /**
+   * Requests let through since the client was created
+   */
+  processed: number;
+
+  /**
+   * Requests rejected because the queue was full
+   */
+  rejected: number;
+
+  /**
+   * Average time requests waited before they were let through, in milliseconds
+   */
+  averageWaitMs: number;
+
+  /**
+   * Tokens currently available (Infinity without a rate)
+   */
+  tokens: number;
+
+  /**
+   * Until when the limiter is paused because the API reported an exhausted rate limit (epoch milliseconds)
+   */
+  pausedUntil?: number;
+}
+
+/**
+ * Statistics of all rate limiters, as returned by getRateLimitStats()
+ */
+export interface RateLimitStats {
+  global: RateLimiterStats;
+  operations: Record<string, RateLimiterStats>;
+  slugs: Record<string, RateLimiterStats>;
+}
+
+/**
+ * Span and metric attributes
+ */
+export type TelemetryAttributes = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Identifies a span (the subset of the OpenTelemetry SpanContext used for propagation)
+ */
+export interface TelemetrySpanContext {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+  traceState?: { serialize(): string };
+}
+
+/**
+ * The subset of an OpenTelemetry Span used by the SDK
+ */
+export interface TelemetrySpan {
+  spanContext(): TelemetrySpanContext;
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  addEvent(name: string, attributes?: TelemetryAttributes): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): unknown;
+  end(): void;
+}
+
+/**
+ * The subset of an OpenTelemetry Tracer used by the SDK
+ * Spans are started in the active context, so they nest under the caller's span.
+ */
+export interface TelemetryTracer {
+  startSpan(name: string, options?: { kind?: number; attributes?: TelemetryAttributes }): TelemetrySpan;
+}
+
+/**
+ * The subset of an OpenTelemetry Meter used by the SDK
+ */
+export interface TelemetryMeter {
+  createCounter(name: string, options?: { description?: string; unit?: string }): {
+    add(value: number, attributes?: TelemetryAttributes): void;
+  };
+  createHistogram(name: string, options?: { description?: string; unit?: string }): {
+    record(value: number, attributes?: TelemetryAttributes): void;
+  };
+}
+
+/**
+ * Tracing and metrics for proxy(), transform() and pipeline() calls
+ * Pass an OpenTelemetry tracer and/or meter (or anything with the same methods).
+ */
+export interface TelemetryOptions {
+  /**
+   * Tracer that creates a span per operation (e.g. `trace.getTracer('vegap-sdk')`)
+   */
+  tracer?: TelemetryTracer;
+
+  /**
+   * Meter that records the operation counter and duration histogram (e.g. `metrics.getMeter('vegap-sdk')`)
+   */
+  meter?: TelemetryMeter;
+
+  /**
+   * Send the W3C trace context (`traceparent`, `tracestate`) of the operation span with every request
+   * @default true
+   */
+  propagateContext?: boolean;
+}
+
+/**
+ * Information passed to the onRetry callback before a request is retried
+ */
+export interface RetryAttemptInfo {
+  /**
+   * The attempt that just failed (1-based)
+   */
+  attempt: number;
+
+  /**
+   * Delay before the next attempt, in milliseconds
+   */
+  delayMs: number;
+
+  /**
+   * The error that caused the retry
+   */
+  error: Error;
+
+  /**
+   * HTTP method of the request
+   */
+  method: string;
+
+  /**
+   * Full URL of the request
+   */
+  url: string;
+}
+
+/**
+ * Retry policy for failed requests
+ */
+export interface RetryOptions {
+  /**
+   * Maximum number of attempts, including the first one
+   * @default 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry, in milliseconds
+   * @default 500
+   */
+  initialDelayMs?: number;
+
+  /**
+   * Upper bound for a single backoff delay, in milliseconds
+   * @default 30000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Factor the delay is multiplied by after each attempt
+   * @default 2
+   */
+  backoffMultiplier?: number;
+
+  /**
+   * Randomize each delay between 0 and the computed backoff ("full jitter")
+   * @default true
+   */
+  jitter?: boolean;
+
+  /**
+   * HTTP status codes that should be retried
+   * @default [408, 429, 500, 502, 503, 504]
+   */
+  retryOnStatus?: number[];
+
+  /**
+   * Retry when no response was received (DNS failure, dropped socket, ...)
+   * @default true
+   */
+  retryOnNetworkError?: boolean;
+
+  /**
+   * HTTP methods that are retried without an idempotency key
+   * Other methods are only retried when an Idempotency-Key header is sent (see the
+   * `idempotencyKey` option of proxy() and pipeline(), which can generate one).
+   * @default ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]
+   */
+  idempotentMethods?: string[];
+
+  /**
+   * Wait for the duration given by the Retry-After response header
+   * @default true
+   */
+  respectRetryAfter?: boolean;
+
+  /**
+   * Maximum Retry-After delay to honor, in milliseconds
+   * If the server asks to wait longer, the error is thrown instead.
+   * @default 60000
+   */
+  maxRetryAfterMs?: number;
+
+  /**
+   * Called before each retry
+   */
+  onRetry?: (info: RetryAttemptInfo) => void;
+}
+
+/**
+ * Identity of the API key, as returned by whoami()
+ */
+export interface WhoAmIResponse {
+  /**
+   * The company the API key belongs to
+   */
+  company_id: string;
+
+  /**
+   * Display name of the company
+   */
+  company_name?: string;
+
+  /**
+   * ID of the API key (never the key itself)
+   */
+  key_id?: string;
+
+  /**
+   * Scopes granted to the API key
+   */
+  scopes?: string[];
+}
+
+/**
+ * A single problem found while validating a response against a schema
+ * Compatible with Standard Schema issues
+ */
+export interface SchemaIssue {
+  /**
+   * Description of the problem
+   */
+  readonly message: string;
+
+  /**
+   * Path to the offending value (e.g. ["items", 0, "email"])
+   */
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+/**
+ * Result of a schema validation
+ * Contains either the (possibly transformed) value or the issues found
+ */
+export type SchemaResult<T> =
+  | { readonly value: T; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<SchemaIssue> };
+
+/**
+ * Minimal Standard Schema (v1) interface, implemented by zod, valibot, arktype and others
+ * @see https://standardschema.dev
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => SchemaResult<Output> | Promise<SchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+  };
+}
+
+/**
+ * A validator function
+ * Returns the validated value or the issues found
+ */
+export type SchemaValidator<T> = (value: unknown) => SchemaResult<T> | Promise<SchemaResult<T>>;
+
+/**
+ * A schema to validate responses against: a validator function or a Standard Schema object
+ */
+export type VegapSchema<T = any> = SchemaValidator<T> | StandardSchemaV1<unknown, T>;
+
+/**
+ * The output type of a schema
+ */
+export type InferSchemaOutput<S> =
+  S extends StandardSchemaV1<any, infer O> ? O :
+  S extends SchemaValidator<infer O> ? O :
+  never;
+
+/**
+ * What to do when a response does not match its schema
+ */
+export type ValidationMode = 'throw' | 'report';
+
+/**
+ * A query parameter (or form field) value
+ * Dates are sent as ISO strings; arrays and nested objects are serialized by the query serializer.
+ */
+export type QueryValue =
+  | string
+  | number
+  | boolean
+  | bigint
+  | Date
+  | null
+  | undefined
+  | QueryValue[]
+  | { [key: string]: QueryValue };
+
+/**
+ * Query parameters (undefined and null values are skipped)
+ */
+export type QueryParams = Record<string, QueryValue>;
+
+/**
+ * How arrays of scalars are serialized (nested objects always use brackets, e.g. `filter[status]=open`)
+ * - bracket: `expand[]=a&expand[]=b` (Rails, PHP, Stripe)
+ * - repeat: `expand=a&expand=b`
+ * - comma: `expand=a,b`
+ */
+export type QueryArrayFormat = 'bracket' | 'repeat' | 'comma';
+
+/**
+ * An array format, or a function that builds the query string itself
+ */
+export type QuerySerializer = QueryArrayFormat | ((params: QueryParams) => string);
+
+/**
+ * How a proxy request body is encoded
+ * - json: JSON (`application/json`); BigInt values are sent as strings
+ * - form: URL-encoded form (`application/x-www-form-urlencoded`), nested like query parameters
+ * - multipart: `multipart/form-data`; Blobs, Files and byte arrays become file parts
+ * - text: the body as a string (`text/plain`, or the Content-Type header you pass, e.g. for XML)
+ * - binary: raw bytes (`application/octet-stream`, or the Content-Type header you pass)
+ */
+export type BodyType = 'json' | 'form' | 'multipart' | 'text' | 'binary';
+
+/**
+ * Options for proxy requests
+ */
+export interface ProxyOptions<T = any> {
+  /**
+   * Query parameters to include in the request
+   */
+  query?: QueryParams;
+  
+  /**
+   * Request body (for POST, PUT, PATCH requests)
+   * Objects are encoded according to `bodyType`; strings are sent unchanged.
+   */
+  body?: Record<string, any> | string | FormData | URLSearchParams | Blob | ArrayBuffer | Uint8Array;
+
+  /**
+   * How the body is encoded, which also sets the Content-Type (unless passed in `headers`)
+   * Defaults to multipart for FormData, form for URLSearchParams, binary for Blobs and byte arrays,
+   * and json otherwise.
+   */
+  bodyType?: BodyType;
+
+  /**
+   * How query parameters (and form bodies) serialize arrays (overrides VegapConfig.querySerializer)
+   */
+  querySerializer?: QuerySerializer;
+  
+  /**
+   * HTTP method
+   * @default "GET"
+   */
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  
+  /**
+   * Additional path segments to append to the proxy endpoint
+   * Example: if using custom slug "stripe-customers" and path is "cus_123", 
+   * the request will be made to /api/proxy/custom/:companyId/stripe-customers/cus_123
+   */
+  path?: string;
+  
+  /**
+   * Additional headers to include in the request
+   */
+  headers?: Record<string, string>;
+  
+  /**
+   * Mapping ID to use instead of custom slug
+   * If provided, uses /api/proxy/:mappingid instead of /api/proxy/custom/:companyId/:customSlug
+   */
+  mappingId?: string;
+
+  /**
+   * Retry policy for this request (overrides VegapConfig.retry)
+   * Set to false to disable retries for this request
+   */
+  retry?: RetryOptions | false;
+
+  /**
+   * Signal to cancel the request
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Timeout for this request in milliseconds (overrides VegapConfig.timeoutMs)
+   */
+  timeoutMs?: number;
+
+  /**
+   * Schema to validate the response against (overrides a schema registered for the slug or mapping ID)
+   * The response type is inferred from the schema.
+   */
+  schema?: VegapSchema<T>;
+
+  /**
+   * Also return the underlying Response as `raw` (a clone with an unread body)
+   */
+  raw?: boolean;
+
+  /**
+   * What to do when the response does not match its schema (overrides VegapConfig.validationMode)
+   */
+  validationMode?: ValidationMode;
+
+  /**
+   * Cache settings for this GET request, or false to bypass the cache
+   * Caching is enabled for all GET requests when VegapConfig.cache is set.
+   */
+  cache?: RequestCacheOptions | boolean;
+
+  /**
+   * Priority while waiting for the rate limiter
+   * @default "normal"
+   */
+  priority?: RequestPriority;
+
+  /**
+   * Key that makes the API run this call at most once, sent as the `Idempotency-Key` header
+   * Reuse the same key when repeating a call yourself (e.g. from a job runner), or pass
+   * `{ auto: true }` to send a generated key. Mutating calls (POST, PATCH) are only retried when
+   * they send a key; one is generated for them if `retry.idempotentMethods` lists their method.
+   */
+  idempotencyKey?: string | { auto: true };
+}
+
+/**
+ * How a paginated list endpoint advances from one page to the next
+ * - cursor: a cursor from the response (or the last item) is sent as a query param
+ * - offset: an offset query param is advanced by the number of items received
+ * - page: a page number query param is incremented
+ * - link: the query params of the `rel="next"` URL in the Link header are used
+ */
+export type PaginationStrategy = 'cursor' | 'offset' | 'page' | 'link';
+
+/**
+ * Pagination settings for paginate()
+ */
+export interface PaginationOptions {
+  /**
+   * Pagination strategy
+   * @default "cursor"
+   */
+  strategy: PaginationStrategy;
+
+  /**
+   * Dot path to the items array in the response data
+   * Defaults to the data itself if it is an array, otherwise the first array found
+   * under "data", "items" or "results"
+   */
+  itemsPath?: string;
+
+  /**
+   * Number of items to request per page (sent as limitParam)
+   * Also used to detect the last page (a page with fewer items ends the iteration)
+   */
+  pageSize?: number;
+
+  /**
+   * Query parameter for the page size
+   * @default "limit"
+   */
+  limitParam?: string;
+
+  /**
+   * Dot path to a boolean in the response data that indicates more pages (e.g. "has_more")
+   */
+  hasMorePath?: string;
+
+  /**
+   * Query parameter for the cursor (cursor strategy)
+   * @default "cursor"
+   */
+  cursorParam?: string;
+
+  /**
+   * Dot path to the next cursor in the response data (cursor strategy)
+   * @default "next_cursor"
+   */
+  nextCursorPath?: string;
+
+  /**
+   * Field of the last item to use as the next cursor, e.g. "id" for Stripe's starting_after (cursor strategy)
+   * Takes precedence over nextCursorPath
+   */
+  cursorFromItem?: string;
+
+  /**
+   * Query parameter for the offset (offset strategy)
+   * @default "offset"
+   */
+  offsetParam?: string;
+
+  /**
+   * Query parameter for the page number (page strategy)
+   * @default "page"
+   */
+  pageParam?: string;
+
+  /**
+   * Number of the first page (page strategy)
+   * @default 1
+   */
+  startPage?: number;
+
+  /**
+   * Dot path to the total number of items in the response data (offset and page strategies)
+   */
+  totalPath?: string;
+
+  /**
+   * Stop after this many pages
+   * @default 100
+   */
+  maxPages?: number;
+
+  /**
+   * Stop after this many items
+   */
+  maxItems?: number;
+}
+
+/**
+ * Options for paginate(): proxy options plus pagination settings
+ */
+export interface PaginateOptions extends Omit<ProxyOptions, 'schema' | 'validationMode' | 'raw'> {
+  /**
+   * Pagination settings
+   * @default { strategy: "cursor" }
+   */
+  pagination?: PaginationOptions;
+}
+
+/**
+ * A single page yielded by Paginator.pages()
+ */
+export interface Page<T = any> {
+  /**
+   * The items on this page
+   */
+  items: T[];
+
+  /**
+   * The full response data of this page
+   */
+  data: any;
+
+  /**
+   * 1-based number of this page within the iteration
+   */
+  pageNumber: number;
+
+  /**
+   * Response headers of this page
+   */
+  headers: Headers;
+}
+
+/**
+ * Simplified proxy options - can be a simple object for GET requests
+ * or a ProxyOptions object for more control
+ */
+export type ProxyOptionsInput<T = any> = 
+  | QueryParams
+  | ProxyOptions<T>;
+
+/**
+ * Request and response types per custom slug, filled in by generated code (`vegap codegen`)
+ * Once it has entries, proxy() only accepts these slugs and types query, body and data from them.
+ *
+ * @example
+ * ```typescript
+ * declare module 'vegap-sdk' {
+ *   interface VegapSlugMap {
+ *     'stripe-customers': { query: { id?: string }; body: never; response: Customer };
+ *   }
+ * }
+ * ```
+ */
+export interface VegapSlugMap {}
+
+/**
+ * Input and result types per pipeline slug, filled in by generated code (`vegap codegen`)
+ * Once it has entries, pipeline() only accepts these slugs and types data and result from them.
+ */
+export interface VegapPipelineMap {}
+
+/**
+ * Custom slugs accepted by proxy(): the generated slugs, or any string without generated types
+ */
+export type ProxySlug = [keyof VegapSlugMap] extends [never] ? string : Extract<keyof VegapSlugMap, string>;
+
+/**
+ * Pipeline slugs accepted by pipeline(): the generated slugs, or any string without generated types
+ */
+export type PipelineSlug = [keyof VegapPipelineMap] extends [never] ? string : Extract<keyof VegapPipelineMap, string>;
+
+type SlugEntry<S, K extends string, Fallback> = S extends keyof VegapSlugMap
+  ? VegapSlugMap[S] extends { [key in K]: infer V } ? V : Fallback
+  : Fallback;
+
+type PipelineEntry<S, K extends string, Fallback> = S extends keyof VegapPipelineMap
+  ? VegapPipelineMap[S] extends { [key in K]: infer V } ? V : Fallback
+  : Fallback;
+
+/**
+ * The data type of a proxy() call: the explicit type argument (or schema) if given,
+ * otherwise the generated response type of the slug
+ */
+export type SlugResponse<S, T> = [T] extends [never] ? SlugEntry<S, 'response', any> : T;
+
+/**
+ * proxy() options for a slug, with query and body typed from the generated types
+ */
+export type SlugProxyOptionsInput<S, T = any> =
+  | SlugEntry<S, 'query', QueryParams>
+  | (Omit<ProxyOptions<T>, 'query' | 'body'> & {
+      query?: SlugEntry<S, 'query', ProxyOptions['query']>;
+      body?: SlugEntry<S, 'body', ProxyOptions['body']>;
+    });
+
+/**
+ * The result type of a pipeline() call: the explicit type argument if given,
+ * otherwise the generated result type of the slug
+ */
+export type PipelineSlugResult<S, T> = [T] extends [never] ? PipelineEntry<S, 'result', any> : T;
+
+/**
+ * pipeline() options for a slug, with data typed from the generated types
+ */
+export type PipelineSlugOptions<S> = Omit<PipelineOptions, 'data'> & {
+  data?: PipelineEntry<S, 'data', any>;
+};
+
+/**
+ * Options for transform requests
+ */
+export interface TransformOptions<T = any> {
+  /**
+   * The raw API response to transform
+   */
+  rawResponse: Record<string, any> | string;
+  
+  /**
+   * Mapping ID to use for transformation
+   */
+  mappingId: string;
+
+  /**
+   * Signal to cancel the request
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Timeout for this request in milliseconds (overrides VegapConfig.timeoutMs)
+   */
+  timeoutMs?: number;
+
+  /**
+   * Schema to validate the transformed output against (overrides a schema registered for the mapping ID)
+   * The output type is inferred from the schema.
+   */
+  schema?: VegapSchema<T>;
+
+  /**
+   * What to do when the output does not match its schema (overrides VegapConfig.validationMode)
+   */
+  validationMode?: ValidationMode;
+
+  /**
+   * Cache settings for this transform, or false to bypass the cache
+   * Caching is enabled for all transforms when VegapConfig.cache.transform is set.
+   */
+  cache?: RequestCacheOptions | boolean;
+
+  /**
+   * Priority while waiting for the rate limiter
+   * @default "normal"
+   */
+  priority?: RequestPriority;
+}
+
+/**
+ * Options for transformBatch()
+ */
+export interface TransformBatchOptions<T = any>
+  extends Omit<TransformOptions<T>, 'rawResponse'> {
+  /**
+   * The raw API responses to transform
+   */
+  items: Array<Record<string, any> | string>;
+
+  /**
+   * Maximum number of transforms running at the same time
+   * @default 5
+   */
+  concurrency?: number;
+
+  /**
+   * Number of items processed per chunk (onProgress is called after each chunk)
+   * @default 100
+   */
+  chunkSize?: number;
+
+  /**
+   * Stop after the first failed item (the remaining items are reported as skipped)
+   * @default false
+   */
+  stopOnError?: boolean;
+
+  /**
+   * Called after each chunk
+   */
+  onProgress?: (progress: TransformBatchProgress) => void;
+}
+
+/**
+ * Progress of a transformBatch() run
+ */
+export interface TransformBatchProgress {
+  /**
+   * Items processed so far (succeeded, failed or skipped)
+   */
+  completed: number;
+
+  /**
+   * Items that failed so far
+   */
+  failed: number;
+
+  /**
+   * Total number of items
+   */
+  total: number;
+}
+
+/**
+ * Result of a single item of transformBatch()
+ * Successful items carry the TransformResponse fields; failed items carry the error.
+ */
+export interface TransformBatchItemResult<T = any> extends Partial<TransformResponse<T>> {
+  /**
+   * Position of the item in the input array
+   */
+  index: number;
+
+  /**
+   * Whether the item was transformed successfully
+   */
+  success: boolean;
+
+  /**
+   * The error thrown for the item (API errors, schema validation errors, ...)
+   * Items the API reported as unsuccessful have `errors` instead.
+   */
+  error?: Error;
+
+  /**
+   * The item was not processed because an earlier item failed (stopOnError)
+   */
+  skipped?: boolean;
+}
+
+/**
+ * Result of transformBatch()
+ */
+export interface TransformBatchResponse<T = any> {
+  /**
+   * Whether every item was transformed successfully
+   */
+  success: boolean;
+
+  /**
+   * One result per item, in input order
+   */
+  results: TransformBatchItemResult<T>[];
+
+  /**
+   * Number of successful items
+   */
+  succeeded: number;
+
+  /**
+   * Number of failed items
+   */
+  failed: number;
+
+  /**
+   * Number of skipped items (stopOnError)
+   */
+  skipped: number;
+
+  /**
+   * Tokens used by all items
+   */
+  tokens_used: number;
+
+  /**
+   * AI cost of all items in USD
+   */
+  ai_cost_usd: number;
+}
+
+/**
+ * Response from a proxy request
+ */
+export interface ProxyResponse<T = any> {
+  /**
+   * The transformed response data
+   */
+  data: T;
+  
+  /**
+   * Response metadata
+   * Read from the X-Vegap-* response headers and a `_vegap` object in the response body
+   */
+  meta?: ProxyResponseMeta;
+
+  /**
+   * HTTP status of the response
+   */
+  status: number;
+
+  /**
+   * Response headers (including the upstream headers relayed by the proxy)
+   */
+  headers: Headers;
+
+  /**
+   * Request ID assigned by the API (useful for support requests)
+   */
+  requestId?: string;
+
+  /**
+   * Client-side measured duration of the call in milliseconds (including retries)
+   */
+  latencyMs: number;
+
+  /**
+   * The underlying Response, with an unread body (only set when `raw: true` was passed)
+   */
+  raw?: Response;
+
+  /**
+   * Schema issues found in the data (only set in "report" validation mode)
+   */
+  validationIssues?: ReadonlyArray<SchemaIssue>;
+
+  /**
+   * Whether the response came from the cache (only set when the request was cacheable)
+   */
+  cache?: CacheStatus;
+}
+
+/**
+ * Metadata about a proxy execution
+ */
+export interface ProxyResponseMeta {
+  mapping_id?: string;
+  mapping_name?: string;
+  execution_time_ms?: number;
+  tokens_used?: number;
+  ai_cost_usd?: number;
+
+  /**
+   * Idempotency key sent with the request (given or generated)
+   */
+  idempotency_key?: string;
+
+  /**
+   * Whether the API answered with the stored response of an earlier call with the same idempotency key
+   */
+  idempotent_replayed?: boolean;
+}
+
+/**
+ * Response from a transform request
+ */
+export interface TransformResponse<T = any> {
+  /**
+   * Whether the transformation was successful
+   */
+  success: boolean;
+  
+  /**
+   * The transformed output
+   */
+  output: T;
+  
+  /**
+   * Any errors that occurred during transformation
+   */
+  errors?: string[];
+  
+  /**
+   * Execution time in milliseconds
+   */
+  execution_time_ms?: number;
+  
+  /**
+   * Tokens used (if AI transformation was used)
+   */
+  tokens_used?: number;
+  
+  /**
+   * AI cost in USD (if AI transformation was used)
+   */
+  ai_cost_usd?: number;
+  
+  /**
+   * Metadata about the mapping used
+   */
+  meta?: {
+    mapping_id?: string;
+    mapping_name?: string;
+  };
+
+  /**
+   * Schema issues found in the output (only set in "report" validation mode)
+   */
+  validationIssues?: ReadonlyArray<SchemaIssue>;
+
+  /**
+   * Whether the result came from the cache (only set when the transform was cacheable)
+   */
+  cache?: CacheStatus;
+}
+
+/**
+ * Options for pipeline execution requests
+ */
+export interface PipelineOptions {
+  /**
+   * File to upload
+   * Streams and file paths are uploaded without loading the whole file into memory.
+   */
+  file?: PipelineFileInput;
+
+  /**
+   * File name sent with the upload
+   * Defaults to the name of the File or the base name of the file path
+   */
+  fileName?: string;
+
+  /**
+   * MIME type sent with the upload (e.g. "application/pdf")
+   */
+  contentType?: string;
+
+  /**
+   * Called as the file is uploaded
+   * Enabling this streams in-memory files as well, so progress can be reported.
+   */
+  onUploadProgress?: (progress: UploadProgress) => void;
+
+  /**
+   * How to parse CSV output (for pipelines with the CSV output format)
+   */
+  csv?: CsvParseOptions;
+
+  /**
+   * Also return the unparsed CSV output as `raw_text`
+   * @default false
+   */
+  includeRawText?: boolean;
+  
+  /**
+   * JSON data to send (alternative to file)
+   */
+  data?: Record<string, any>;
+  
+  /**
+   * Additional headers to include in the request
+   */
+  headers?: Record<string, string>;
+  
+  /**
+   * Pipeline ID to use instead of custom slug
+   * If provided, uses /api/pipelines/execute/:pipelineId instead of /api/pipelines/custom/:companyId/:slug
+   */
+  pipelineId?: string;
+
+  /**
+   * Retry policy for this request (overrides VegapConfig.retry)
+   * Set to false to disable retries for this request
+   */
+  retry?: RetryOptions | false;
+
+  /**
+   * Signal to cancel the request
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Timeout for this request in milliseconds (overrides VegapConfig.timeoutMs)
+   */
+  timeoutMs?: number;
+
+  /**
+   * Timeout for this file upload in milliseconds (overrides VegapConfig.uploadTimeoutMs)
+   */
+  uploadTimeoutMs?: number;
+
+  /**
+   * Priority while waiting for the rate limiter
+   * @default "normal"
+   */
+  priority?: RequestPriority;
+
+  /**
+   * Key that makes the API run this call at most once, sent as the `Idempotency-Key` header
+   * Reuse the same key when repeating a call yourself (e.g. from a job runner), or pass
+   * `{ auto: true }` to send a generated key. Mutating calls (POST, PATCH) are only retried when
+   * they send a key; one is generated for them if `retry.idempotentMethods` lists their method.
+   */
+  idempotencyKey?: string | { auto: true };
+}
+
+/**
+ * Options for parsing CSV pipeline output
+ */
+export interface CsvParseOptions {
+  /**
+   * Field delimiter (a single character)
+   * @default ","
+   */
+  delimiter?: string;
+
+  /**
+   * How to name the columns
+   * - true: the first row holds the column names, rows are objects
+   * - string[]: use these column names, the first row is data
+   * - false: rows are arrays of fields
+   * @default true
+   */
+  header?: boolean | string[];
+
+  /**
+   * Convert numeric and boolean fields to numbers and booleans, and empty fields to null
+   * @default false
+   */
+  dynamicTyping?: boolean;
+}
+
+/**
+ * File input for pipeline uploads
+ * - File, Blob, Buffer or Uint8Array: in-memory data
+ * - ReadableStream: a Web stream (uploaded once; not retried)
+ * - NodeJS.ReadableStream: a Node Readable such as fs.createReadStream() (uploaded once; not retried)
+ * - string: a file path, opened as a stream (Node.js only)
+ */
+export type PipelineFileInput =
+  | File
+  | Blob
+  | Buffer
+  | Uint8Array
+  | ReadableStream<Uint8Array>
+  | NodeJS.ReadableStream
+  | string;
+
+/**
+ * Upload progress reported to onUploadProgress
+ */
+export interface UploadProgress {
+  /**
+   * Bytes of the file sent so far
+   */
+  loaded: number;
+
+  /**
+   * Total size of the file in bytes (unknown for streams)
+   */
+  total?: number;
+}
+
+/**
+ * Response from a pipeline execution request
+ */
+export interface PipelineResponse<T = any> {
+  /**
+   * Whether the pipeline execution was successful
+   */
+  success: boolean;
+  
+  /**
+   * The job ID for this execution
+   */
+  job_id: string;
+  
+  /**
+   * The processed output
+   * For the CSV output format this is the parsed rows (use an array type for T)
+   */
+  result?: T;
+  
+  /**
+   * The processing status
+   */
+  status: PipelineJobStatus;
+
+  /**
+   * The unparsed output (only for the CSV output format with `includeRawText: true`)
+   */
+  raw_text?: string;
+  
+  /**
+   * Processing time in milliseconds
+   */
+  processing_time_ms?: number;
+  
+  /**
+   * Message (for webhook output format)
+   */
+  message?: string;
+
+  /**
+   * Idempotency key sent with the request (given or generated)
+   */
+  idempotency_key?: string;
+
+  /**
+   * Whether the API answered with the stored response of an earlier call with the same idempotency key
+   */
+  idempotent_replayed?: boolean;
+}
+
+/**
+ * Status of a pipeline job
+ */
+export type PipelineJobStatus =
+  | 'queued'
+  | 'processing'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * A pipeline job as returned by the jobs API
+ */
+export interface PipelineJob<T = any> {
+  /**
+   * The job ID
+   */
+  job_id: string;
+
+  /**
+   * The pipeline this job belongs to
+   */
+  pipeline_id?: string;
+
+  /**
+   * The processing status
+   */
+  status: PipelineJobStatus;
+
+  /**
+   * The processed output (once the job is completed)
+   */
+  result?: T;
+
+  /**
+   * Error message (if the job failed)
+   */
+  error?: string;
+
+  /**
+   * Progress between 0 and 1 (if reported by the pipeline)
+   */
+  progress?: number;
+
+  /**
+   * Processing time in milliseconds
+   */
+  processing_time_ms?: number;
+
+  /**
+   * ISO timestamp of when the job was created
+   */
+  created_at?: string;
+
+  /**
+   * ISO timestamp of the last status change
+   */
+  updated_at?: string;
+
+  /**
+   * ISO timestamp of when the job finished
+   */
+  completed_at?: string;
+}
+
+/**
+ * Options for waiting on a pipeline job
+ */
+export interface WaitForJobOptions<T = any> {
+  /**
+   * Delay between status checks, in milliseconds
+   * @default 2000
+   */
+  pollInterval?: number;
+
+  /**
+   * Maximum time to wait, in milliseconds (0 waits indefinitely)
+   * @default 300000
+   */
+  timeout?: number;
+
+  /**
+   * Called with the job after every status check
+   */
+  onProgress?: (job: PipelineJob<T>) => void;
+
+  /**
+   * Signal to stop waiting
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Filters for listing pipeline jobs
+ */
+export interface ListJobsOptions {
+  /**
+   * Only return jobs of this pipeline
+   */
+  pipelineId?: string;
+
+  /**
+   * Only return jobs with this status (or any of these statuses)
+   */
+  status?: PipelineJobStatus | PipelineJobStatus[];
+
+  /**
+   * Maximum number of jobs to return
+   */
+  limit?: number;
+
+  /**
+   * Cursor returned by a previous list call
+   */
+  cursor?: string;
+
+  /**
+   * Signal to cancel the request
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * A page of pipeline jobs
+ */
+export interface PipelineJobList<T = any> {
+  /**
+   * The jobs on this page
+   */
+  jobs: PipelineJob<T>[];
+
+  /**
+   * Total number of matching jobs (if reported by the API)
+   */
+  total?: number;
+
+  /**
+   * Cursor for the next page (absent on the last page)
+   */
+  next_cursor?: string;
+}
+
+/**
+ * Options for listing mappings, endpoints or pipelines
+ */
+export interface ListResourcesOptions {
+  /**
+   * Only return resources whose name (or custom slug) contains this text
+   */
+  search?: string;
+
+  /**
+   * Maximum number of resources to return
+   */
+  limit?: number;
+
+  /**
+   * Cursor returned by a previous list call
+   */
+  cursor?: string;
+
+  /**
+   * Signal to cancel the request
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * A page of mappings, endpoints or pipelines
+ */
+export interface ResourceList<T> {
+  /**
+   * The resources on this page
+   */
+  data: T[];
+
+  /**
+   * Total number of matching resources (if reported by the API)
+   */
+  total?: number;
+
+  /**
+   * Cursor for the next page (absent on the last page)
+   */
+  next_cursor?: string;
+}
+
+/**
+ * Fields shared by all managed resources
+ */
+export interface ResourceBase {
+  /**
+   * The resource ID
+   */
+  id: string;
+
+  /**
+   * Current version number (increases with every update)
+   */
+  version: number;
+
+  /**
+   * ISO timestamp of when the resource was created
+   */
+  created_at?: string;
+
+  /**
+   * ISO timestamp of the last update
+   */
+  updated_at?: string;
+}
+
+/**
+ * A stored version of a mapping, endpoint or pipeline
+ */
+export interface ResourceVersion<T> {
+  /**
+   * The version number
+   */
+  version: number;
+
+  /**
+   * The resource as it was in this version
+   */
+  snapshot: T;
+
+  /**
+   * Description of the change (from the `message` passed on update)
+   */
+  message?: string;
+
+  /**
+   * ISO timestamp of when the version was created
+   */
+  created_at?: string;
+
+  /**
+   * Who created the version (user or API key name)
+   */
+  created_by?: string;
+}
+
+/**
+ * Options for writing a resource
+ */
+export interface WriteResourceOptions {
+  /**
+   * Description of the change, stored with the new version
+   */
+  message?: string;
+
+  /**
+   * Only apply the update if the resource is still at this version (otherwise the API responds with 409)
+   */
+  ifVersion?: number;
+
+  /**
+   * Signal to cancel the request
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * A mapping: how a raw API response is transformed into the target shape
+ */
+export interface Mapping extends ResourceBase {
+  name: string;
+  description?: string;
+
+  /**
+   * Field mapping rules and transformation settings
+   */
+  config: Record<string, any>;
+
+  /**
+   * JSON Schema of the raw input (if defined)
+   */
+  input_schema?: Record<string, any>;
+
+  /**
+   * JSON Schema of the transformed output (if defined)
+   */
+  output_schema?: Record<string, any>;
+
+  /**
+   * Whether the mapping uses AI for fields without explicit rules
+   */
+  ai_enabled?: boolean;
+}
+
+/**
+ * Fields for creating or updating a mapping
+ */
+export type MappingInput = Omit<Mapping, keyof ResourceBase>;
+
+/**
+ * An endpoint: a custom slug that proxies an upstream API through a mapping
+ */
+export interface Endpoint extends ResourceBase {
+  /**
+   * The custom slug used with proxy() (e.g. "stripe-customers")
+   */
+  custom_slug: string;
+
+  name?: string;
+  description?: string;
+
+  /**
+   * The mapping applied to upstream responses
+   */
+  mapping_id: string;
+
+  /**
+   * Upstream URL that requests are forwarded to
+   */
+  upstream_url: string;
+
+  /**
+   * Upstream HTTP method (defaults to the method of the proxied request)
+   */
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+  /**
+   * Headers added to upstream requests (e.g. authentication)
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * JSON Schema of the query parameters (used by codegen)
+   */
+  query_schema?: Record<string, any>;
+
+  /**
+   * JSON Schema of the request body (used by codegen)
+   */
+  body_schema?: Record<string, any>;
+}
+
+/**
+ * Fields for creating or updating an endpoint
+ */
+export type EndpointInput = Omit<Endpoint, keyof ResourceBase>;
+
+/**
+ * A processing step of a pipeline
+ */
+export interface PipelineStep {
+  /**
+   * The step type (e.g. "ocr", "extract", "mapping")
+   */
+  type: string;
+
+  name?: string;
+
+  /**
+   * Step settings
+   */
+  config?: Record<string, any>;
+}
+
+/**
+ * A pipeline definition
+ */
+export interface Pipeline extends ResourceBase {
+  name: string;
+  description?: string;
+
+  /**
+   * The custom slug used with pipeline() (e.g. "invoice-processor")
+   */
+  custom_slug?: string;
+
+  /**
+   * The processing steps, in order
+   */
+  steps: PipelineStep[];
+
+  /**
+   * Output format of the result
+   */
+  output_format?: 'json' | 'csv';
+
+  /**
+   * URL that receives the pipeline.* webhook events
+   */
+  webhook_url?: string;
+
+  /**
+   * JSON Schema of the JSON data input (used by codegen)
+   */
+  input_schema?: Record<string, any>;
+
+  /**
+   * JSON Schema of the result (used by codegen)
+   */
+  output_schema?: Record<string, any>;
+}
+
+/**
+ * Fields for creating or updating a pipeline
+ */
+export type PipelineInput = Omit<Pipeline, keyof ResourceBase>;
+
+/**
+ * Options for test-running an endpoint without saving anything
+ */
+export interface TestEndpointOptions {
+  /**
+   * Query parameters for the upstream request
+   */
+  query?: Record<string, string | number | boolean | undefined>;
+
+  /**
+   * Request body for the upstream request
+   */
+  body?: Record<string, any> | string;
+
+  /**
+   * HTTP method
+   * @default "GET"
+   */
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+  /**
+   * Additional path appended to the upstream URL
+   */
+  path?: string;
+
+  /**
+   * Unsaved changes to test instead of the stored endpoint
+   */
+  overrides?: Partial<EndpointInput>;
+
+  /**
+   * Signal to cancel the request
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Result of an endpoint test run
+ */
+export interface EndpointTestResult<T = any> {
+  /**
+   * HTTP status of the upstream response
+   */
+  upstream_status: number;
+
+  /**
+   * The raw upstream response
+   */
+  raw_response: any;
+
+  /**
+   * The transformed response
+   */
+  output: T;
+
+  /**
+   * Any errors that occurred during transformation
+   */
+  errors?: string[];
+
+  execution_time_ms?: number;
+  tokens_used?: number;
+  ai_cost_usd?: number;
+}
+
+/**
+ * Options for test-running a mapping without saving anything
+ */
+export interface TestMappingOptions {
+  /**
+   * The raw API response to transform
+   */
+  rawResponse: Record<string, any> | string;
+
+  /**
+   * Unsaved changes to test instead of the stored mapping
+   */
+  overrides?: Partial<MappingInput>;
+
+  /**
+   * Signal to cancel the request
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for test-running a pipeline without saving anything
+ */
+export interface TestPipelineOptions {
+  /**
+   * JSON data to process
+   */
+  data: any;
+
+  /**
+   * Unsaved changes to test instead of the stored pipeline
+   */
+  overrides?: Partial<PipelineInput>;
+
+  /**
+   * Signal to cancel the request
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Error response from the API
+ */
+export interface VegapError {
+  error: string;
+  [key: string]: any;
+}
+
+/**
+ * Payload of pipeline webhook events
+ * Carries the same job_id/result shape as PipelineResponse
+ */
+export interface PipelineWebhookData<T = any> extends PipelineResponse<T> {
+  /**
+   * The pipeline that produced this job
+   */
+  pipeline_id?: string;
+
+  /**
+   * Error message (for failed jobs)
+   */
+  error?: string;
+}
+
+/**
+ * Common fields of every webhook event
+ */
+export interface WebhookEventBase<TType extends string, TData> {
+  /**
+   * Unique event ID (use it to deduplicate deliveries)
+   */
+  id: string;
+
+  /**
+   * Event type
+   */
+  type: TType;
+
+  /**
+   * ISO timestamp of when the event was created
+   */
+  created_at: string;
+
+  /**
+   * Event payload
+   */
+  data: TData;
+}
+
+/**
+ * Sent when a pipeline job finished successfully
+ */
+export type PipelineCompletedEvent<T = any> = WebhookEventBase<'pipeline.completed', PipelineWebhookData<T>>;
+
+/**
+ * Sent when a pipeline job failed
+ */
+export type PipelineFailedEvent<T = any> = WebhookEventBase<'pipeline.failed', PipelineWebhookData<T>>;
+
+/**
+ * Sent when a pipeline job was cancelled
+ */
+export type PipelineCancelledEvent<T = any> = WebhookEventBase<'pipeline.cancelled', PipelineWebhookData<T>>;
+
+/**
+ * Any webhook event sent by Vegap
+ * Narrow on `type` to get the matching payload
+ */
+export type WebhookEvent<T = any> =
+  | PipelineCompletedEvent<T>
+  | PipelineFailedEvent<T>
+  | PipelineCancelledEvent<T>;
+
+/**
+ * Headers of an incoming webhook request
+ * Accepts a Web Headers object or a Node-style header record
+ */
+export type WebhookHeaders = Headers | Record<string, string | string[] | undefined>;
+
+/**
+ * Options for webhook verification
+ */
+export interface VerifyWebhookOptions {
+  /**
+   * Maximum age of the signature timestamp, in seconds (0 disables the check)
+   * @default 300
+   */
+  tolerance?: number;
+}
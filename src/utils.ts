@@ -0,0 +1,32 @@
+/**
+ * Copy an object without its undefined properties
+ * Useful for merging option objects without overwriting defaults with undefined
+ */
+export function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined)
+  ) as Partial<T>;
+}
+
+/**
+ * Check whether a value is an object other than an array (or null)
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Copy request options with additional headers (which replace existing ones of the same name)
+ * Plain header objects stay plain objects, so middleware can keep reading them by name.
+ */
+export function mergeHeaders(init: RequestInit, headers: Record<string, string>): RequestInit {
+  if (Object.keys(headers).length === 0) {
+    return init;
+  }
+  if (init.headers instanceof Headers || Array.isArray(init.headers)) {
+    const merged = new Headers(init.headers);
+    Object.entries(headers).forEach(([name, value]) => merged.set(name, value));
+    return { ...init, headers: merged };
+  }
+  return { ...init, headers: { ...init.headers, ...headers } };
+}
@@ -0,0 +1,272 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type {
+  WebhookEvent,
+  WebhookHeaders,
+  VerifyWebhookOptions,
+} from './types.js';
+import { VegapWebhookVerificationError } from './errors.js';
+
+/**
+ * Header carrying the webhook signature
+ * Format: `t=<unix seconds>,v1=<hex hmac-sha256>` (several v1 entries are allowed during secret rotation)
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'x-vegap-signature';
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+/**
+ * Verify the signature of an incoming webhook and parse its event
+ *
+ * The signature is an HMAC-SHA256 of `<timestamp>.<raw body>` keyed with your webhook secret.
+ * Requests with a timestamp older than the tolerance are rejected to block replays.
+ *
+ * @param rawBody - The unparsed request body, exactly as received
+ * @param headers - The request headers
+ * @param secret - Your webhook signing secret
+ * @returns The parsed webhook event
+ * @throws VegapWebhookVerificationError if the signature is missing or invalid
+ *
+ * @example
+ * ```typescript
+ * const event = await verifyWebhook(rawBody, req.headers, process.env.VEGAP_WEBHOOK_SECRET);
+ *
+ * if (event.type === 'pipeline.completed') {
+ *   console.log(event.data.job_id, event.data.result);
+ * }
+ * ```
+ */
+export async function verifyWebhook<T = any>(
+  rawBody: string | Uint8Array,
+  headers: WebhookHeaders,
+  secret: string,
+  options: VerifyWebhookOptions = {}
+): Promise<WebhookEvent<T>> {
+  const { tolerance = DEFAULT_TOLERANCE_SECONDS } = options;
+
+  if (!secret) {
+    throw new Error('Webhook secret is required');
+  }
+
+  const header = getHeader(headers, WEBHOOK_SIGNATURE_HEADER);
+  if (!header) {
+    throw new VegapWebhookVerificationError(`Missing ${WEBHOOK_SIGNATURE_HEADER} header`);
+  }
+
+  const { timestamp, signatures } = parseSignatureHeader(header);
+  if (timestamp === undefined || signatures.length === 0) {
+    throw new VegapWebhookVerificationError(`Malformed ${WEBHOOK_SIGNATURE_HEADER} header`);
+  }
+
+  if (tolerance > 0 && Math.abs(Math.floor(Date.now() / 1000) - timestamp) > tolerance) {
+    throw new VegapWebhookVerificationError('Webhook timestamp is outside the tolerance window');
+  }
+
+  // Bytes are signed as received, so invalid UTF-8 cannot be normalized into a matching payload
+  const expected = await computeSignature(concatBytes(`${timestamp}.`, rawBody), secret);
+  if (!signatures.some(signature => timingSafeEqual(signature, expected))) {
+    throw new VegapWebhookVerificationError('Webhook signature does not match');
+  }
+
+  const body = typeof rawBody === 'string' ? rawBody : new TextDecoder().decode(rawBody);
+
+  try {
+    return JSON.parse(body) as WebhookEvent<T>;
+  } catch {
+    throw new VegapWebhookVerificationError('Webhook body is not valid JSON');
+  }
+}
+
+/**
+ * Create a signature header value for a payload
+ * Useful for testing your webhook receivers.
+ *
+ * @param timestamp - Unix timestamp in seconds (defaults to now)
+ */
+export async function signWebhookPayload(
+  payload: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  const signature = await computeSignature(`${timestamp}.${payload}`, secret);
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Verify a webhook delivered to a Node `http` server
+ * Reads the raw body from the request stream (or uses `req.body` if a body parser
+ * already buffered it as a Buffer or string).
+ *
+ * @example
+ * ```typescript
+ * http.createServer(async (req, res) => {
+ *   const event = await verifyNodeWebhook(req, secret);
+ *   res.writeHead(200).end();
+ * });
+ * ```
+ */
+export async function verifyNodeWebhook<T = any>(
+  req: IncomingMessage & { body?: unknown },
+  secret: string,
+  options?: VerifyWebhookOptions
+): Promise<WebhookEvent<T>> {
+  const rawBody = await readNodeBody(req);
+  return verifyWebhook<T>(rawBody, req.headers, secret, options);
+}
+
+/**
+ * Verify a webhook delivered as a Web `Request` (fetch handlers, edge runtimes, Next.js route handlers)
+ *
+ * @example
+ * ```typescript
+ * export async function POST(request: Request) {
+ *   const event = await verifyWebRequestWebhook(request, secret);
+ *   return new Response(null, { status: 200 });
+ * }
+ * ```
+ */
+export async function verifyWebRequestWebhook<T = any>(
+  request: Request,
+  secret: string,
+  options?: VerifyWebhookOptions
+): Promise<WebhookEvent<T>> {
+  const rawBody = new Uint8Array(await request.arrayBuffer());
+  return verifyWebhook<T>(rawBody, request.headers, secret, options);
+}
+
+/**
+ * Create an Express-style request handler that verifies webhooks
+ * Responds with 400 if verification fails, and with 200 once the handler resolved.
+ * Mount it with `express.raw({ type: 'application/json' })` (or no body parser at all)
+ * so the raw body is available.
+ *
+ * @example
+ * ```typescript
+ * app.post('/webhooks/vegap', express.raw({ type: 'application/json' }), webhookHandler(secret, async event => {
+ *   if (event.type === 'pipeline.failed') {
+ *     await alert(event.data.error);
+ *   }
+ * }));
+ * ```
+ */
+export function webhookHandler<T = any>(
+  secret: string,
+  handler: (event: WebhookEvent<T>) => void | Promise<void>,
+  options?: VerifyWebhookOptions
+): (req: IncomingMessage & { body?: unknown }, res: ServerResponse, next?: (error?: unknown) => void) => Promise<void> {
+  return async (req, res, next) => {
+    let event: WebhookEvent<T>;
+    try {
+      event = await verifyNodeWebhook<T>(req, secret, options);
+    } catch (error) {
+      if (error instanceof VegapWebhookVerificationError) {
+        res.statusCode = 400;
+        res.end(error.message);
+        return;
+      }
+      return next ? next(error) : failResponse(res);
+    }
+
+    try {
+      await handler(event);
+      res.statusCode = 200;
+      res.end();
+    } catch (error) {
+      return next ? next(error) : failResponse(res);
+    }
+  };
+}
+
+function failResponse(res: ServerResponse): void {
+  res.statusCode = 500;
+  res.end();
+}
+
+async function readNodeBody(req: IncomingMessage & { body?: unknown }): Promise<string | Uint8Array> {
+  if (typeof req.body === 'string' || req.body instanceof Uint8Array) {
+    return req.body;
+  }
+  if (req.body !== undefined && typeof req.body === 'object' && req.readableEnded) {
+    throw new Error(
+      'Request body was already parsed as JSON. Use a raw body parser for the webhook route so the signature can be verified.'
+    );
+  }
+
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? new TextEncoder().encode(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+function getHeader(headers: WebhookHeaders, name: string): string | undefined {
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+
+  const record = headers as Record<string, string | string[] | undefined>;
+  const key = Object.keys(record).find(k => k.toLowerCase() === name);
+  const value = key ? record[key] : undefined;
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function parseSignatureHeader(header: string): { timestamp?: number; signatures: string[] } {
+  let timestamp: number | undefined;
+  const signatures: string[] = [];
+
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=', 2);
+    if (key === 't' && value && /^\d+$/.test(value)) {
+      timestamp = Number(value);
+    } else if (key === 'v1' && value) {
+      signatures.push(value.toLowerCase());
+    }
+  }
+
+  return { timestamp, signatures };
+}
+
+async function computeSignature(payload: string | Uint8Array, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const bytes = typeof payload === 'string' ? encoder.encode(payload) : payload;
+  const signature = await crypto.subtle.sign('HMAC', key, bytes);
+
+  return Array.from(new Uint8Array(signature))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Join a string prefix (UTF-8 encoded) and a body without decoding the body
+ */
+function concatBytes(prefix: string, body: string | Uint8Array): string | Uint8Array {
+  if (typeof body === 'string') {
+    return prefix + body;
+  }
+  const head = new TextEncoder().encode(prefix);
+  const bytes = new Uint8Array(head.length + body.length);
+  bytes.set(head);
+  bytes.set(body, head.length);
+  return bytes;
+}
+
+/**
+ * Compare two strings in constant time (for equal lengths)
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}